@@ -1,20 +1,114 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppState, AppMode, AnalysisResult, GuidanceStep } from './types';
+import { AppState, AppMode, DomainId, Domain, AnalysisResult, GuidanceStep, VerificationResult, Session, StepOutcome, AuditEvent, AuditEventType, ChatMessage, FailedAttempt, LiveObservation, VoiceCommand, LabeledImage, EvidenceRequest, CaptureImage, TextCapture } from './types';
 import CameraView from './components/CameraView';
-import { analyzeSituation, verifyStep, playInstructionAudio } from './services/geminiService';
+import VoiceRecorder from './components/VoiceRecorder';
+import EmergencyContacts from './components/EmergencyContacts';
+import SessionHistory from './components/SessionHistory';
+import ReportExport from './components/ReportExport';
+import AuditLogView from './components/AuditLogView';
+import FollowUpChat from './components/FollowUpChat';
+import VoiceCommandControl from './components/VoiceCommandControl';
+import AudioControls from './components/AudioControls';
+import AnnotatedImage from './components/AnnotatedImage';
+import CaptureEditor from './components/CaptureEditor';
+import MediaImport from './components/MediaImport';
+import TemplateLibrary from './components/TemplateLibrary';
+import KnowledgeBase from './components/KnowledgeBase';
+import SourceCitations from './components/SourceCitations';
+import ModeProfiles from './components/ModeProfiles';
+import StepDetails from './components/StepDetails';
+import DomainIcon, { DOMAIN_COLOR_CLASSES } from './components/DomainIcon';
+import DomainEditor from './components/DomainEditor';
+import TextCaptureEditor from './components/TextCaptureEditor';
+import CodeBlocks from './components/CodeBlocks';
+import { evaluateAnalysis, evaluateVerification, needsMoreEvidence, ESCALATION_CONTENT } from './services/safetyPolicy';
+import { analyzeSituation, requestEvidence, verifyStep, verifyOutput, transcribeAudio, askFollowUp, planRecovery } from './services/aiService';
+import { saveSession, getResumableSession, updateSessionStatus } from './services/sessionStore';
+import { createAuditEvent, appendAuditEvent } from './services/auditLog';
+import { createLiveVerifier, LiveVerifier } from './services/liveVerifier';
+import { VOICE_COMMAND_LABELS } from './services/voiceCommands';
+import { speak, stopAudio, prefetchSpeech } from './services/audioPlayer';
+import { AIError, AI_ERROR_COPY, toAIError, describeAIError } from './services/aiErrors';
+import { OVERVIEW_ROLE, CAPTURE_ROLES, CAPTURE_ROLE_HINTS, createCapture, createTextCapture, TEXT_CAPTURE_KINDS, nextSuggestedRole, sessionCaptureSet, toModelImages, referenceImageFor } from './services/captureSet';
+import { ImportedImage } from './services/mediaImport';
+import { getTemplates } from './services/procedureTemplates';
+import { retrievePassages } from './services/knowledgeBase';
+import { getProfile } from './services/modeProfiles';
+import { getDomains, getDomain, getSessionDomain, createBlankDomain } from './services/domains';
+import { summarizeOutcomes } from './services/reportExport';
+import { applyStepRevisions, describeRevisions, applyRecoveryPlan, describeRecoveryPlan } from './services/stepRevisions';
+
+// Minimum gap between spoken live coaching lines so audio does not pile up
+const LIVE_SPEECH_INTERVAL_MS = 6000;
+// Guidance starts after this even if some step audio is still being synthesized
+const PREFETCH_TIMEOUT_MS = 15000;
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.HOME);
-  const [mode, setMode] = useState<AppMode>(AppMode.FIRST_AID);
-  const [wideImage, setWideImage] = useState<string | null>(null);
-  const [macroImage, setMacroImage] = useState<string | null>(null);
+  // Read after awaits, where the state captured by the closure may be stale
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const [mode, setMode] = useState<DomainId>(AppMode.FIRST_AID);
+  const [domains, setDomains] = useState<Domain[]>(getDomains);
+  const [editingDomain, setEditingDomain] = useState<Domain | null>(null);
+  // Safety rules of the open session, which still apply if its custom domain is deleted
+  const [sessionBaseMode, setSessionBaseMode] = useState<AppMode>(AppMode.FIRST_AID);
+  // Custom domains inherit safety policy and escalation advice from their base mode
+  const domain = domains.find(d => d.id === mode) || getDomain(mode, sessionBaseMode);
+  // Software problems start from pasted logs and are verified against command output
+  const isSoftware = domain.baseMode === AppMode.CODING;
+  const [captureSet, setCaptureSet] = useState<CaptureImage[]>([]);
+  // Role given to the next photo taken in INITIAL_CAPTURE
+  const [captureRole, setCaptureRole] = useState(OVERVIEW_ROLE);
+  const [editingCaptureId, setEditingCaptureId] = useState<string | null>(null);
+  const [textCaptures, setTextCaptures] = useState<TextCapture[]>([]);
+  const [editingTextCapture, setEditingTextCapture] = useState<TextCapture | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [currentStepIdx, setCurrentStepIdx] = useState(0);
   const [isBusy, setIsBusy] = useState(false);
   const [voiceDescription, setVoiceDescription] = useState<string | null>(null);
-  const [verificationFeedback, setVerificationFeedback] = useState<{ success: boolean; feedback: string } | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
+  const [verificationFeedback, setVerificationFeedback] = useState<VerificationResult | null>(null);
+  const [verificationFailures, setVerificationFailures] = useState(0);
+  const [verificationOutput, setVerificationOutput] = useState('');
+  // Software steps are checked against pasted output unless the user picks the camera
+  const [verifyByPhoto, setVerifyByPhoto] = useState(false);
+  const [escalationReason, setEscalationReason] = useState<string | null>(null);
+  const [analysisError, setAnalysisError] = useState<AIError | null>(null);
+
+  // Extra photos for a low-confidence analysis
+  const [evidenceRequests, setEvidenceRequests] = useState<EvidenceRequest[]>([]);
+  const [evidenceAdded, setEvidenceAdded] = useState(0);
+  const [evidenceIdx, setEvidenceIdx] = useState(0);
+  const [isRequestingEvidence, setIsRequestingEvidence] = useState(false);
+  const [stepOutcomes, setStepOutcomes] = useState<StepOutcome[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEvent[]>([]);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showKnowledgeBase, setShowKnowledgeBase] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [prefetchProgress, setPrefetchProgress] = useState({ done: 0, total: 0 });
+  const [recoveryDiagnosis, setRecoveryDiagnosis] = useState<string | null>(null);
+
+  // Live video verification
+  const [liveObservation, setLiveObservation] = useState<LiveObservation | null>(null);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const liveVerifier = useRef<LiveVerifier | null>(null);
+  const liveSpoken = useRef({ text: '', at: 0 });
+
+  // Follow-up chat
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [showChat, setShowChat] = useState(false);
+  const [isChatBusy, setIsChatBusy] = useState(false);
+
+  // Session persistence
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [resumableSession, setResumableSession] = useState<Session | null>(null);
+  const sessionCreatedAt = useRef(0);
 
   // Long press for override logic
   const [overrideHeld, setOverrideHeld] = useState(false);
@@ -22,69 +116,543 @@ const App: React.FC = () => {
   const longPressTimer = useRef<number | null>(null);
   const progressInterval = useRef<number | null>(null);
 
-  const startAssessment = (selectedMode: AppMode) => {
+  useEffect(() => {
+    if (state !== AppState.HOME) return;
+    getResumableSession().then(setResumableSession).catch(err => console.warn("Session lookup failed:", err));
+  }, [state]);
+
+  // Speech belongs to the guided steps; leaving them silences it
+  useEffect(() => {
+    const guided = [AppState.PREPARING_INSTRUCTIONS, AppState.GUIDANCE, AppState.STEP_VALIDATION, AppState.LIVE_VALIDATION];
+    if (!guided.includes(state)) stopAudio();
+  }, [state]);
+
+  useEffect(() => {
+    if (state === AppState.LIVE_VALIDATION || !liveVerifier.current) return;
+    liveVerifier.current.stop();
+    liveVerifier.current = null;
+  }, [state]);
+
+  useEffect(() => {
+    if (!liveObservation || state !== AppState.LIVE_VALIDATION) return;
+    if (liveObservation.complete) {
+      completeLiveVerification(liveObservation);
+      return;
+    }
+    const now = Date.now();
+    if (liveObservation.feedback && liveObservation.feedback !== liveSpoken.current.text && now - liveSpoken.current.at >= LIVE_SPEECH_INTERVAL_MS) {
+      liveSpoken.current = { text: liveObservation.feedback, at: now };
+      speak(liveObservation.feedback);
+    }
+  }, [liveObservation]);
+
+  const buildSessionSnapshot = (id: string): Session => ({
+    id,
+    mode,
+    baseMode: domain.baseMode,
+    status: state === AppState.COMPLETED ? 'COMPLETED' : state === AppState.ESCALATION ? 'ESCALATED' : 'IN_PROGRESS',
+    state,
+    createdAt: sessionCreatedAt.current,
+    updatedAt: Date.now(),
+    captureSet,
+    textCaptures,
+    voiceDescription,
+    analysis,
+    currentStepIdx,
+    stepOutcomes,
+    auditLog,
+    chatHistory: chatMessages
+  });
+
+  // Snapshot the procedure on every meaningful change so a reload can pick it back up
+  useEffect(() => {
+    if (!sessionId || state === AppState.HOME) return;
+    saveSession(buildSessionSnapshot(sessionId)).catch(err => console.warn("Session save failed:", err));
+  }, [sessionId, state, mode, captureSet, textCaptures, voiceDescription, analysis, currentStepIdx, stepOutcomes, auditLog, chatMessages]);
+
+  const logEvent = (type: AuditEventType, fields?: Omit<AuditEvent, 'at' | 'type'>) => {
+    setAuditLog(prev => appendAuditEvent(prev, createAuditEvent(type, fields)));
+  };
+
+  // Per-visit state that is never stored with a session, cleared whenever one is started or resumed
+  const resetTransientState = () => {
+    setEscalationReason(null);
+    setVerificationFeedback(null);
+    setVerificationFailures(0);
+    setVerificationOutput('');
+    setVerifyByPhoto(false);
+    setRecoveryDiagnosis(null);
+    setEvidenceRequests([]);
+    setLiveObservation(null);
+    setLiveError(null);
+    setTranscriptionError(null);
+  };
+
+  const beginSession = (selectedMode: DomainId, baseMode: AppMode, detail?: string) => {
+    setSessionId(crypto.randomUUID());
+    sessionCreatedAt.current = Date.now();
+    setResumableSession(null);
     setMode(selectedMode);
-    setWideImage(null);
-    setMacroImage(null);
+    setSessionBaseMode(baseMode);
+    setStepOutcomes([]);
+    setAuditLog([createAuditEvent('SESSION_STARTED', { detail: detail || getDomain(selectedMode).name })]);
+    setChatMessages([]);
+    setCurrentStepIdx(0);
+    resetTransientState();
+  };
+
+  const startAssessment = (selectedMode: DomainId) => {
+    const baseMode = getDomain(selectedMode).baseMode;
+    beginSession(selectedMode, baseMode);
+    setCaptureSet([]);
+    setTextCaptures([]);
+    setCaptureRole(OVERVIEW_ROLE);
     setVoiceDescription(null);
-    setState(AppState.INITIAL_CAPTURE);
+    setAnalysis(null);
+    // A stack trace is usually pasted rather than photographed, so the camera is optional
+    setState(baseMode === AppMode.CODING ? AppState.CAPTURE_COMPLETE : AppState.INITIAL_CAPTURE);
+  };
+
+  // Re-runs a stored procedure as a fresh session without a new analysis call
+  const rerunSession = (source: Session) => {
+    const baseMode = getSessionDomain(source).baseMode;
+    beginSession(source.mode, baseMode, `Re-run of stored procedure: ${source.analysis?.category}`);
+    setCaptureSet(sessionCaptureSet(source));
+    setTextCaptures(source.textCaptures || []);
+    setVoiceDescription(source.voiceDescription);
+    setAnalysis(source.analysis);
+    // A stored procedure gets the same safety routing as a fresh analysis
+    const decision = source.analysis ? evaluateAnalysis(baseMode, source.analysis) : { escalate: false };
+    if (decision.escalate) {
+      escalate(decision.reason);
+    } else {
+      setState(AppState.ANALYSIS_COMPLETE);
+    }
+  };
+
+  const resumeSession = (session: Session) => {
+    setSessionId(session.id);
+    sessionCreatedAt.current = session.createdAt;
+    setResumableSession(null);
+    const baseMode = getSessionDomain(session).baseMode;
+    setMode(session.mode);
+    setSessionBaseMode(baseMode);
+    setCaptureSet(sessionCaptureSet(session));
+    setTextCaptures(session.textCaptures || []);
+    setVoiceDescription(session.voiceDescription);
+    setAnalysis(session.analysis);
+    setCurrentStepIdx(session.currentStepIdx);
+    setStepOutcomes(session.stepOutcomes);
+    setAuditLog(appendAuditEvent(session.auditLog || [], createAuditEvent('SESSION_RESUMED', { detail: `Resumed at step ${session.currentStepIdx + 1}` })));
+    setChatMessages(session.chatHistory || []);
+    resetTransientState();
+
+    const inGuidance = [AppState.PREPARING_INSTRUCTIONS, AppState.GUIDANCE, AppState.STEP_VALIDATION, AppState.LIVE_VALIDATION].includes(session.state);
+    if (session.analysis && inGuidance) {
+      setState(AppState.GUIDANCE);
+      const step = session.analysis.steps[session.currentStepIdx];
+      if (step) speak(step.audioPrompt);
+      prefetchSpeech(session.analysis.steps.slice(session.currentStepIdx + 1).map(s => s.audioPrompt));
+    } else if (session.analysis) {
+      setState(AppState.ANALYSIS_COMPLETE);
+    } else if (sessionCaptureSet(session).length || session.textCaptures?.length || baseMode === AppMode.CODING) {
+      setState(AppState.CAPTURE_COMPLETE);
+    } else {
+      setState(AppState.INITIAL_CAPTURE);
+    }
+  };
+
+  const discardResumableSession = () => {
+    if (resumableSession) {
+      updateSessionStatus(resumableSession.id, 'ABANDONED').catch(err => console.warn("Session update failed:", err));
+    }
+    setResumableSession(null);
+  };
+
+  const recordStepOutcome = (outcome: StepOutcome) => {
+    setStepOutcomes(prev => [...prev.filter(o => o.stepId !== outcome.stepId), outcome]);
   };
 
   const handleCapture = async (data: string) => {
     setIsCapturing(false);
     if (state === AppState.INITIAL_CAPTURE) {
-      if (!wideImage) {
-        setWideImage(data);
+      const captures = [...captureSet, createCapture(captureRole, data)];
+      setCaptureSet(captures);
+      // The first photo leads straight into the suggested second one; later photos return to the review
+      const next = nextSuggestedRole(captures);
+      if (captures.length === 1 && next) {
+        setCaptureRole(next);
       } else {
-        setMacroImage(data);
         setState(AppState.CAPTURE_COMPLETE);
       }
+    } else if (state === AppState.EVIDENCE_CAPTURE) {
+      advanceEvidence(createCapture(evidenceRequests[evidenceIdx].description, data));
     } else if (state === AppState.STEP_VALIDATION) {
-      setIsBusy(true);
-      const result = await verifyStep(analysis!.steps[currentStepIdx].instruction, data);
-      setVerificationFeedback(result);
+      submitVerification({ image: data });
+    }
+  };
+
+  // A step is checked against either a photo or pasted command output, never both
+  const submitVerification = async (evidence: { image?: string; output?: string }) => {
+    const step = analysis!.steps[currentStepIdx];
+    setIsBusy(true);
+    let result: VerificationResult;
+    try {
+      const references = await retrievePassages(mode, `${step.title} ${step.instruction}`);
+      const strictness = getProfile(mode).verificationStrictness;
+      result = evidence.output !== undefined
+        ? await verifyOutput(step.instruction, evidence.output, references, strictness)
+        : await verifyStep(step.instruction, evidence.image!, references, strictness);
+    } catch (err) {
+      // An unreachable verifier is not a failed step, but it is never a pass either
+      console.error(err);
       setIsBusy(false);
+      logEvent('VERIFICATION_UNAVAILABLE', { stepId: step.id, detail: describeAIError(err), ...evidence });
+      setVerificationFeedback({ success: false, feedback: `Could not verify this step. ${describeAIError(err)}` });
+      return;
+    }
+    const failures = result.success ? verificationFailures : verificationFailures + 1;
+    setVerificationFailures(failures);
+    setIsBusy(false);
+    logEvent('VERIFICATION_ATTEMPT', {
+      stepId: step.id,
+      success: result.success,
+      detail: result.feedback,
+      ...evidence
+    });
+    recordStepOutcome({
+      stepId: step.id,
+      status: result.success ? 'VERIFIED' : 'FAILED',
+      ...evidence,
+      feedback: result.feedback,
+      completedAt: Date.now()
+    });
+    // Each step gets one recovery attempt; after that repeated failures escalate. Vetted procedures are never rewritten
+    const canRecover = !analysis!.template && !step.isRecoveryStep && !auditLog.some(e => e.type === 'RECOVERY_PLANNED' && e.stepId === step.id);
+    const decision = evaluateVerification(domain.baseMode, result, failures, canRecover, getProfile(mode).recoverAfterFailures);
+    if (decision.escalate) {
+      escalate(decision.reason);
+      return;
+    }
+    if (decision.recover) {
+      // Only failures counted towards this decision: those since the step was last started or the session resumed
+      let countedFrom = 0;
+      auditLog.forEach((e, i) => {
+        if (e.type === 'SESSION_RESUMED' || (e.type === 'STEP_STARTED' && e.stepId === step.id)) countedFrom = i;
+      });
+      const failedAttempts = auditLog
+        .slice(countedFrom)
+        .filter(e => e.type === 'VERIFICATION_ATTEMPT' && e.stepId === step.id && e.success === false && (e.image || e.output));
+      const earlier = (failures > 1 ? failedAttempts.slice(-(failures - 1)) : [])
+        .map(e => ({ image: e.image, output: e.output, feedback: e.detail || '' }));
+      recoverFromFailures([...earlier, { ...evidence, feedback: result.feedback }]);
+      return;
+    }
+    setVerificationFeedback(result);
+  };
+
+  const recoverFromFailures = async (attempts: FailedAttempt[]) => {
+    const step = analysis!.steps[currentStepIdx];
+    setIsRecovering(true);
+    try {
+      const images = await toModelImages(captureSet);
+      const references = await retrievePassages(mode, `${step.title} ${step.instruction} ${attempts[attempts.length - 1].feedback}`);
+      const plan = await planRecovery({ mode, images, textCaptures, analysis: analysis!, currentStepIdx, references, profile: getProfile(mode) }, attempts);
+      if (!plan.steps?.length) throw new Error("Recovery plan contained no steps");
+      const steps = applyRecoveryPlan(analysis!.steps, currentStepIdx, plan);
+      setAnalysis({ ...analysis!, steps });
+      logEvent('RECOVERY_PLANNED', { stepId: step.id, detail: `${plan.diagnosis} ${describeRecoveryPlan(plan)}` });
+      logEvent('STEP_STARTED', { stepId: steps[currentStepIdx].id, detail: steps[currentStepIdx].title });
+      setRecoveryDiagnosis(plan.diagnosis);
+      setVerificationFailures(0);
+      setState(AppState.GUIDANCE);
+      speak(steps[currentStepIdx].audioPrompt);
+    } catch (err) {
+      console.error(err);
+      escalate(`Step could not be verified after ${attempts.length} attempts and no recovery plan was found. ${attempts[attempts.length - 1].feedback}`);
+    } finally {
+      setIsRecovering(false);
+    }
+  };
+
+  // Photos imported from the camera screen start with the role being captured, the rest follow the suggested order
+  const importCaptures = (images: ImportedImage[], firstRole?: string) => {
+    let captures = captureSet;
+    images.forEach((img, i) => {
+      const role = img.role || (i === 0 && firstRole) || nextSuggestedRole(captures) || 'Other';
+      captures = [...captures, createCapture(role, img.data)];
+    });
+    setCaptureSet(captures);
+    setState(AppState.CAPTURE_COMPLETE);
+  };
+
+  const editingCapture = captureSet.find(c => c.id === editingCaptureId);
+  // Photos, pasted text or both are enough to analyze
+  const hasEvidence = captureSet.length > 0 || textCaptures.length > 0;
+
+  const saveTextCapture = (capture: TextCapture) => {
+    setTextCaptures(prev => prev.some(t => t.id === capture.id) ? prev.map(t => (t.id === capture.id ? capture : t)) : [...prev, capture]);
+    setEditingTextCapture(null);
+  };
+
+  const removeTextCapture = (id: string) => {
+    setTextCaptures(prev => prev.filter(t => t.id !== id));
+    setEditingTextCapture(null);
+  };
+
+  const saveCapture = (capture: CaptureImage) => {
+    setCaptureSet(prev => prev.map(c => (c.id === capture.id ? capture : c)));
+    setEditingCaptureId(null);
+  };
+
+  const removeCapture = (id: string) => {
+    setCaptureSet(prev => prev.filter(c => c.id !== id));
+    setEditingCaptureId(null);
+  };
+
+  const handleVoiceRecorded = async (base64Audio: string, mimeType: string) => {
+    setIsTranscribing(true);
+    setTranscriptionError(null);
+    try {
+      const text = await transcribeAudio(base64Audio, mimeType);
+      // Successive recordings extend the description instead of replacing it
+      if (text) setVoiceDescription(prev => prev ? `${prev} ${text}` : text);
+    } catch (err) {
+      setTranscriptionError(describeAIError(err));
+    } finally {
+      setIsTranscribing(false);
     }
   };
 
-  const triggerAnalysis = async () => {
+  const escalate = (reason?: string) => {
+    logEvent('ESCALATION', { detail: reason });
+    setEscalationReason(reason || null);
+    setVerificationFeedback(null);
+    setState(AppState.ESCALATION);
+  };
+
+  // Captures are passed in when the last one was taken in the same tick as the re-run
+  const triggerAnalysis = async (captures: CaptureImage[] = captureSet) => {
+    setAnalysisError(null);
+    setEvidenceRequests([]);
     setState(AppState.ANALYZING);
     setIsBusy(true);
     try {
-      const res = await analyzeSituation(mode, wideImage!, macroImage!, voiceDescription || undefined);
+      const images = await toModelImages(captures);
+      // Without a description, roles, captions and the end of each paste are the only text to match manuals against
+      const query = [
+        voiceDescription,
+        ...captures.map(c => `${c.role} ${c.caption || ''}`),
+        ...textCaptures.map(t => t.text.slice(-500))
+      ].filter(Boolean).join(' ');
+      const references = await retrievePassages(mode, query, 6);
+      const profile = getProfile(mode);
+      const res = await analyzeSituation(mode, images, voiceDescription?.trim() || undefined, getTemplates(mode), references, profile, textCaptures);
       setAnalysis(res);
-      setState(AppState.ANALYSIS_COMPLETE);
+      const procedure = res.template ? ` · ${res.template.name} v${res.template.version}` : '';
+      logEvent('ANALYSIS_COMPLETED', { detail: `${res.category} · ${res.severity} severity · ${Math.round(res.confidence * 100)}% confidence · profile v${profile.version}${procedure}` });
+      const decision = evaluateAnalysis(domain.baseMode, res);
+      if (decision.escalate) {
+        escalate(decision.reason);
+      } else {
+        setState(AppState.ANALYSIS_COMPLETE);
+        // One round of extra evidence; after that a weak analysis is shown as-is
+        const evidenceRequested = auditLog.some(e => e.type === 'EVIDENCE_REQUESTED');
+        if (needsMoreEvidence(domain.baseMode, res) && !evidenceRequested) gatherEvidenceRequests(res, images);
+      }
     } catch (err) {
       console.error(err);
-      setState(AppState.HOME);
+      setAnalysisError(toAIError(err));
+      setState(AppState.ANALYSIS_FAILED);
     } finally {
       setIsBusy(false);
     }
   };
 
-  const startGuidance = () => {
+  const gatherEvidenceRequests = async (res: AnalysisResult, images: LabeledImage[]) => {
+    setIsRequestingEvidence(true);
+    try {
+      const requests = await requestEvidence(mode, res, images);
+      setEvidenceRequests(requests);
+      if (requests.length) logEvent('EVIDENCE_REQUESTED', { detail: requests.map(r => r.description).join('; ') });
+    } catch (err) {
+      // The analysis is still usable; the user just is not offered extra captures
+      console.warn("Evidence request failed:", err);
+    } finally {
+      setIsRequestingEvidence(false);
+    }
+  };
+
+  const startEvidenceCapture = () => {
+    setEvidenceAdded(0);
+    setEvidenceIdx(0);
+    setState(AppState.EVIDENCE_CAPTURE);
+  };
+
+  const advanceEvidence = (captured: CaptureImage | null) => {
+    const captures = captured ? [...captureSet, captured] : captureSet;
+    const added = captured ? evidenceAdded + 1 : evidenceAdded;
+    setCaptureSet(captures);
+    setEvidenceAdded(added);
+    if (evidenceIdx < evidenceRequests.length - 1) {
+      setEvidenceIdx(evidenceIdx + 1);
+    } else if (added) {
+      triggerAnalysis(captures);
+    } else {
+      setState(AppState.ANALYSIS_COMPLETE);
+    }
+  };
+
+  const startGuidance = async () => {
+    if (!analysis) return;
     setState(AppState.PREPARING_INSTRUCTIONS);
-    setTimeout(() => {
-      setState(AppState.GUIDANCE);
-      setCurrentStepIdx(0);
-      if (analysis?.steps[0]) {
-        playInstructionAudio(analysis.steps[0].audioPrompt);
-      }
-    }, 400); 
+    setPrefetchProgress({ done: 0, total: analysis.steps.length });
+    const prefetch = prefetchSpeech(analysis.steps.map(s => s.audioPrompt), (done, total) => setPrefetchProgress({ done, total }));
+    let timer: number | undefined;
+    let failed: number | null;
+    try {
+      failed = await Promise.race([prefetch, new Promise<null>(resolve => { timer = window.setTimeout(() => resolve(null), PREFETCH_TIMEOUT_MS); })]);
+    } finally {
+      clearTimeout(timer);
+    }
+    // Missing audio is synthesized on demand or spoken by the browser voice, so it never blocks guidance
+    if (failed === null) console.warn("Step audio prefetch timed out; continuing in the background");
+    else if (failed > 0) console.warn(`${failed} step audio prompts could not be prefetched`);
+    if (stateRef.current !== AppState.PREPARING_INSTRUCTIONS) return;
+
+    setState(AppState.GUIDANCE);
+    setCurrentStepIdx(0);
+    setVerificationFailures(0);
+    if (analysis.steps[0]) {
+      logEvent('STEP_STARTED', { stepId: analysis.steps[0].id, detail: analysis.steps[0].title });
+      speak(analysis.steps[0].audioPrompt);
+    }
+  };
+
+  const startLiveVerification = () => {
+    const step = analysis!.steps[currentStepIdx];
+    liveSpoken.current = { text: '', at: 0 };
+    setLiveObservation(null);
+    setLiveError(null);
+    liveVerifier.current = createLiveVerifier(
+      step,
+      observation => { setLiveError(null); setLiveObservation(observation); },
+      err => setLiveError(describeAIError(err))
+    );
+    setState(AppState.LIVE_VALIDATION);
   };
 
-  const proceedNext = () => {
+  const stopLiveVerification = () => {
+    setLiveObservation(null);
+    setState(AppState.GUIDANCE);
+  };
+
+  const completeLiveVerification = (observation: LiveObservation) => {
+    const step = analysis!.steps[currentStepIdx];
+    const image = liveVerifier.current?.latestFrame();
+    logEvent('VERIFICATION_ATTEMPT', { stepId: step.id, success: true, detail: `Live: ${observation.feedback}`, image });
+    recordStepOutcome({ stepId: step.id, status: 'VERIFIED', image, live: true, feedback: observation.feedback, completedAt: Date.now() });
+    setLiveObservation(null);
+    proceedNext(undefined, true);
+  };
+
+  // verifiedNow covers outcomes recorded in the same tick, before stepOutcomes has updated
+  const proceedNext = (overrideReason?: string, verifiedNow = false) => {
+    // Leaving a step without a successful verification is recorded as an override
+    const step = analysis!.steps[currentStepIdx];
+    const verified = verifiedNow || stepOutcomes.some(o => o.stepId === step.id && o.status === 'VERIFIED');
+    if (!verified) {
+      logEvent('MANUAL_OVERRIDE', { stepId: step.id, detail: overrideReason || 'Proceeded without verification' });
+    }
+    logEvent('STEP_FINISHED', { stepId: step.id, detail: verified ? 'Verified' : 'Overridden' });
+    setStepOutcomes(prev => {
+      const existing = prev.find(o => o.stepId === step.id);
+      if (existing?.status === 'VERIFIED') return prev;
+      return [...prev.filter(o => o.stepId !== step.id), { ...existing, stepId: step.id, status: 'OVERRIDDEN', completedAt: Date.now() }];
+    });
     if (currentStepIdx < analysis!.steps.length - 1) {
       const nextIdx = currentStepIdx + 1;
       setCurrentStepIdx(nextIdx);
       setVerificationFeedback(null);
+      setVerificationFailures(0);
+      setVerificationOutput('');
+      if (!analysis!.steps[nextIdx].isRecoveryStep) setRecoveryDiagnosis(null);
       setState(AppState.GUIDANCE);
-      playInstructionAudio(analysis!.steps[nextIdx].audioPrompt);
+      logEvent('STEP_STARTED', { stepId: analysis!.steps[nextIdx].id, detail: analysis!.steps[nextIdx].title });
+      speak(analysis!.steps[nextIdx].audioPrompt);
     } else {
+      logEvent('SESSION_COMPLETED');
       setState(AppState.COMPLETED);
     }
   };
 
+  const goBack = () => {
+    if (currentStepIdx === 0) return;
+    const prevIdx = currentStepIdx - 1;
+    setCurrentStepIdx(prevIdx);
+    setVerificationFeedback(null);
+    setVerificationFailures(0);
+    setState(AppState.GUIDANCE);
+    logEvent('STEP_STARTED', { stepId: analysis!.steps[prevIdx].id, detail: `${analysis!.steps[prevIdx].title} (revisited)` });
+    speak(analysis!.steps[prevIdx].audioPrompt);
+  };
+
+  const handleVoiceCommand = (command: VoiceCommand, transcript: string) => {
+    const step = analysis!.steps[currentStepIdx];
+    logEvent('VOICE_COMMAND', { stepId: step.id, detail: `${VOICE_COMMAND_LABELS[command]} ("${transcript}")` });
+    switch (command) {
+      case 'NEXT':
+        proceedNext('Voice command: next');
+        break;
+      case 'REPEAT':
+        speak(step.audioPrompt);
+        break;
+      case 'BACK':
+        goBack();
+        break;
+      case 'VERIFY':
+        setState(AppState.STEP_VALIDATION);
+        break;
+      case 'TOOLS':
+        speak(step.materials?.length
+          ? `For this step you need: ${step.materials.map(m => m.name).join(', ')}.`
+          : 'No tools are needed for this step.');
+        break;
+      case 'HELP':
+        escalate('Help requested by voice command.');
+        break;
+    }
+  };
+
+  const sendFollowUp = async (text: string, image?: string) => {
+    if (!analysis) return;
+    const message: ChatMessage = { role: 'user', text, image, at: Date.now() };
+    const history = chatMessages;
+    setChatMessages(prev => [...prev, message]);
+    setIsChatBusy(true);
+    try {
+      const images = await toModelImages(captureSet);
+      const step = analysis.steps[currentStepIdx];
+      const references = await retrievePassages(mode, `${text} ${step.title} ${step.instruction}`);
+      const reply = await askFollowUp({ mode, images, textCaptures, analysis, currentStepIdx, references, profile: getProfile(mode) }, history, message);
+      if (reply.revisions?.length && !analysis.template) {
+        const steps = applyStepRevisions(analysis.steps, currentStepIdx, reply.revisions);
+        setAnalysis({ ...analysis, steps });
+        logEvent('PLAN_REVISED', { stepId: analysis.steps[currentStepIdx].id, detail: describeRevisions(reply.revisions) });
+        if (reply.revisions.some(r => r.action === 'REPLACE_CURRENT')) {
+          setVerificationFailures(0);
+          speak(steps[currentStepIdx].audioPrompt);
+        }
+      }
+      setChatMessages(prev => [...prev, { role: 'assistant', text: reply.text, ...(reply.citations ? { citations: reply.citations } : {}), at: Date.now() }]);
+    } catch (err) {
+      console.error(err);
+      setChatMessages(prev => [...prev, { role: 'assistant', text: `Sorry, I could not answer that. ${describeAIError(err)}`, at: Date.now() }]);
+    } finally {
+      setIsChatBusy(false);
+    }
+  };
+
   // Human-in-the-loop Manual Override handlers
   const handleOverrideStart = () => {
     setOverrideHeld(true);
@@ -98,7 +666,7 @@ const App: React.FC = () => {
       setOverrideProgress(progress);
       if (progress >= 100) {
         if (progressInterval.current) clearInterval(progressInterval.current);
-        proceedNext();
+        proceedNext('Long-press override of auto-verify');
         setOverrideHeld(false);
         setOverrideProgress(0);
       }
@@ -125,7 +693,13 @@ const App: React.FC = () => {
           <p className="text-xs text-slate-500 font-medium">Step {currentStepIdx + 1} of {analysis.steps.length}</p>
         )}
       </div>
-      <div className="w-10" />
+      {sessionId && auditLog.length > 0 ? (
+        <button onClick={() => setShowAuditLog(true)} className="p-2 -mr-2 text-slate-400">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" /></svg>
+        </button>
+      ) : (
+        <div className="w-10" />
+      )}
     </header>
   );
 
@@ -143,34 +717,55 @@ const App: React.FC = () => {
             <p className="text-slate-400 font-bold uppercase text-[10px] tracking-[0.2em] mt-2 mb-10">AI-Powered Universal Instruction</p>
 
             <div className="w-full space-y-4">
+              {resumableSession && (
+                <div className="bg-blue-50 border border-blue-100 p-5 rounded-[24px] mb-4 animate-fade-in">
+                  <p className="text-[10px] font-black text-blue-400 uppercase tracking-widest mb-1">Unfinished Session</p>
+                  <h3 className="text-lg font-black text-blue-900 leading-tight">{resumableSession.analysis?.category || getDomain(resumableSession.mode).name}</h3>
+                  <p className="text-blue-700 text-[13px] font-bold mt-1">
+                    {resumableSession.analysis
+                      ? `Step ${resumableSession.currentStepIdx + 1} of ${resumableSession.analysis.steps.length}`
+                      : 'Captured, not yet analyzed'} · {new Date(resumableSession.updatedAt).toLocaleString()}
+                  </p>
+                  <div className="flex gap-3 mt-4">
+                    <button onClick={() => resumeSession(resumableSession)} className="flex-1 bg-blue-600 text-white py-3 rounded-xl font-black text-sm active:scale-[0.98] transition-all">Resume</button>
+                    <button onClick={discardResumableSession} className="flex-1 bg-white text-slate-500 py-3 rounded-xl font-black text-sm border border-blue-100">Discard</button>
+                  </div>
+                </div>
+              )}
+
               <div className="flex items-center gap-4 mb-2">
                 <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest whitespace-nowrap">Technical Domains</span>
                 <div className="h-px flex-1 bg-slate-200" />
               </div>
               
               <div className="grid grid-cols-2 gap-4">
-                {[
-                  { m: AppMode.ROBOTICS, icon: 'bolt', col: 'bg-indigo-600', t: 'Robotics & Electronics' },
-                  { m: AppMode.MECHANICAL, icon: 'gear', col: 'bg-slate-800', t: 'Auto & Mechanical' },
-                  { m: AppMode.CODING, icon: 'code', col: 'bg-blue-600', t: 'Software Engineering' },
-                  { m: AppMode.TRADES, icon: 'hammer', col: 'bg-amber-600', t: 'Workshop & Trades' },
-                ].map(item => (
-                  <button 
-                    key={item.t} 
-                    onClick={() => startAssessment(item.m)}
-                    className={`${item.col} text-white p-6 rounded-[24px] flex flex-col items-center justify-center gap-4 shadow-lg active:scale-[0.96] transition-all text-center h-44 border-b-4 border-black/20`}
-                  >
-                    <div className="w-12 h-12 rounded-2xl bg-white/20 flex items-center justify-center text-xl font-black">
-                       <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}>
-                         {item.icon === 'bolt' && <path d="M13 10V3L4 14h7v7l9-11h-7z" />}
-                         {item.icon === 'gear' && <path d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />}
-                         {item.icon === 'code' && <path d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />}
-                         {item.icon === 'hammer' && <path d="M11 4H4v14a2 2 0 002 2h12a2 2 0 002-2v-5M9 15l3 3L22 7" />}
-                       </svg>
-                    </div>
-                    <h4 className="font-extrabold text-xs uppercase tracking-wider leading-tight">{item.t}</h4>
-                  </button>
+                {domains.filter(d => d.id !== AppMode.FIRST_AID).map(item => (
+                  <div key={item.id} className="relative">
+                    <button
+                      onClick={() => startAssessment(item.id)}
+                      className={`${DOMAIN_COLOR_CLASSES[item.color]} w-full text-white p-6 rounded-[24px] flex flex-col items-center justify-center gap-4 shadow-lg active:scale-[0.96] transition-all text-center h-44 border-b-4 border-black/20`}
+                    >
+                      <div className="w-12 h-12 rounded-2xl bg-white/20 flex items-center justify-center text-xl font-black">
+                        <DomainIcon icon={item.icon} />
+                      </div>
+                      <h4 className="font-extrabold text-xs uppercase tracking-wider leading-tight line-clamp-2">{item.name}</h4>
+                    </button>
+                    {!item.builtIn && (
+                      <button onClick={() => setEditingDomain(item)} aria-label={`Edit ${item.name}`} className="absolute top-3 right-3 p-2 rounded-xl bg-white/20 text-white">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                      </button>
+                    )}
+                  </div>
                 ))}
+                <button
+                  onClick={() => setEditingDomain(createBlankDomain())}
+                  className="p-6 rounded-[24px] flex flex-col items-center justify-center gap-4 text-center h-44 border-2 border-dashed border-slate-200 text-slate-400 active:scale-[0.96] transition-all"
+                >
+                  <div className="w-12 h-12 rounded-2xl bg-slate-100 flex items-center justify-center">
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path d="M12 4v16m8-8H4" /></svg>
+                  </div>
+                  <h4 className="font-extrabold text-xs uppercase tracking-wider leading-tight">Add Domain</h4>
+                </button>
               </div>
 
               <div className="flex items-center gap-4 mt-8 mb-2">
@@ -190,69 +785,188 @@ const App: React.FC = () => {
                   <p className="text-white/80 text-[13px] font-bold">Life-saving AR instructions</p>
                 </div>
               </button>
+
+              <SessionHistory onOpen={rerunSession} />
+
+              <button onClick={() => setShowTemplates(true)} className="w-full mt-8 py-4 rounded-[22px] border-2 border-dashed border-slate-200 text-slate-400 text-[11px] font-black uppercase tracking-widest">
+                Vetted Procedures
+              </button>
+
+              <button onClick={() => setShowKnowledgeBase(true)} className="w-full py-4 rounded-[22px] border-2 border-dashed border-slate-200 text-slate-400 text-[11px] font-black uppercase tracking-widest">
+                Manuals & Documents
+              </button>
+
+              <button onClick={() => setShowProfiles(true)} className="w-full py-4 rounded-[22px] border-2 border-dashed border-slate-200 text-slate-400 text-[11px] font-black uppercase tracking-widest">
+                Mode Profiles
+              </button>
+            </div>
+          </div>
+        )}
+
+        {state === AppState.STEP_VALIDATION && isSoftware && !verifyByPhoto && analysis && (
+          <div className="flex-1 flex flex-col bg-white animate-fade-in">
+            {renderHeader("Step Validation")}
+            <div className="flex-1 flex flex-col p-6 min-h-0">
+              <h2 className="text-xl font-black text-slate-900 tracking-tight">Paste the Output</h2>
+              <p className="text-slate-400 text-sm mt-1 mb-6 font-medium">
+                {isRecovering
+                  ? "Repeated failures. Building a recovery plan..."
+                  : `Run the step, then paste what the terminal printed for: ${analysis.steps[currentStepIdx].title}`}
+              </p>
+              <textarea
+                value={verificationOutput}
+                onChange={(e) => setVerificationOutput(e.target.value)}
+                placeholder="Paste the command output, test results or new error..."
+                spellCheck={false}
+                className="flex-1 w-full bg-slate-900 text-slate-100 rounded-2xl p-4 text-[12px] leading-relaxed font-mono focus:outline-none resize-none select-text"
+              />
+            </div>
+            <div className="p-6 space-y-3">
+              <button
+                disabled={isBusy || isRecovering || !verificationOutput.trim()}
+                onClick={() => submitVerification({ output: verificationOutput })}
+                className={`w-full bg-emerald-500 text-white py-5 rounded-[24px] font-black text-xl shadow-xl shadow-emerald-100 active:scale-[0.98] transition-all flex items-center justify-center gap-3 ${isBusy || isRecovering || !verificationOutput.trim() ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {isBusy || isRecovering ? 'Checking...' : 'Check Output'}
+              </button>
+              <div className="flex">
+                <button onClick={() => setState(AppState.GUIDANCE)} className="flex-1 text-slate-400 font-black uppercase tracking-[0.2em] text-[10px] py-2">Back to Step</button>
+                <button onClick={() => setVerifyByPhoto(true)} className="flex-1 text-slate-400 font-black uppercase tracking-[0.2em] text-[10px] py-2">Use a Photo Instead</button>
+              </div>
             </div>
           </div>
         )}
 
-        {(state === AppState.INITIAL_CAPTURE || state === AppState.STEP_VALIDATION) && (
+        {(state === AppState.INITIAL_CAPTURE || (state === AppState.STEP_VALIDATION && (!isSoftware || verifyByPhoto))) && (
           <div className="flex-1 flex flex-col bg-white">
             {renderHeader(state === AppState.INITIAL_CAPTURE ? "Analysis Scan" : "Step Validation")}
-            <CameraView onCapture={handleCapture} isCapturing={isCapturing} />
+            <CameraView
+              onCapture={handleCapture}
+              isCapturing={isCapturing}
+              overlayType={state === AppState.STEP_VALIDATION ? analysis?.steps[currentStepIdx].arOverlayType : undefined}
+              targetRegion={state === AppState.STEP_VALIDATION ? analysis?.steps[currentStepIdx].targetRegion : undefined}
+              referenceImage={state === AppState.STEP_VALIDATION ? referenceImageFor(captureSet, analysis?.steps[currentStepIdx].targetRegion) : undefined}
+            />
             <div className="p-8 text-center animate-slide-up flex flex-col items-center">
                <h2 className="text-xl font-black text-slate-900 tracking-tight">
                   {state === AppState.INITIAL_CAPTURE 
-                    ? (!wideImage ? "Capture Scene Context" : "Capture Technical Detail")
+                    ? `Capture ${captureRole}`
                     : "Verify Task Completion"
                   }
                </h2>
                <p className="text-slate-400 text-sm mt-1 mb-8 font-medium">
-                  {state === AppState.STEP_VALIDATION 
+                  {isRecovering
+                    ? "Repeated failures. Building a recovery plan..."
+                    : state === AppState.STEP_VALIDATION
                     ? "Snap a photo of your work to proceed" 
-                    : (!wideImage ? "Wide angle view of the device/system" : "High detail of specific component")}
+                    : (CAPTURE_ROLE_HINTS[captureRole] || "Frame it clearly and hold steady")}
                </p>
+               {state === AppState.INITIAL_CAPTURE && (
+                 <div className="w-full flex gap-2 overflow-x-auto -mt-4 mb-8 pb-1">
+                   {CAPTURE_ROLES.map(role => (
+                     <button
+                       key={role}
+                       onClick={() => setCaptureRole(role)}
+                       className={`shrink-0 px-3 py-1.5 rounded-full text-[11px] font-black ${captureRole === role ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+                     >
+                       {role}
+                     </button>
+                   ))}
+                 </div>
+               )}
                <button 
-                disabled={isBusy}
+                disabled={isBusy || isRecovering}
                 onClick={() => setIsCapturing(true)}
-                className={`w-24 h-24 bg-white border-8 border-slate-100 rounded-full shadow-inner active:scale-90 transition-transform flex items-center justify-center p-2 relative ${isBusy ? 'opacity-50 cursor-not-allowed' : ''}`}
+                className={`w-24 h-24 bg-white border-8 border-slate-100 rounded-full shadow-inner active:scale-90 transition-transform flex items-center justify-center p-2 relative ${isBusy || isRecovering ? 'opacity-50 cursor-not-allowed' : ''}`}
                >
                  <div className={`w-full h-full rounded-full transition-colors ${state === AppState.STEP_VALIDATION ? 'bg-emerald-500' : 'bg-blue-600'}`} />
-                 {isBusy && <div className="absolute inset-0 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />}
+                 {(isBusy || isRecovering) && <div className="absolute inset-0 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />}
                </button>
+               {state === AppState.INITIAL_CAPTURE && <div className="mt-4"><MediaImport onImport={(images) => importCaptures(images, captureRole)} /></div>}
+               {state === AppState.STEP_VALIDATION && isSoftware && (
+                 <button onClick={() => setVerifyByPhoto(false)} className="text-slate-400 font-black uppercase tracking-[0.2em] text-[10px] py-4 mt-2">
+                   Paste Output Instead
+                 </button>
+               )}
+               {state === AppState.INITIAL_CAPTURE && captureSet.length > 0 && (
+                 <button onClick={() => setState(AppState.CAPTURE_COMPLETE)} className="text-slate-400 font-black uppercase tracking-[0.2em] text-[10px] py-4 mt-2">
+                   Review {captureSet.length} Photo{captureSet.length === 1 ? '' : 's'}
+                 </button>
+               )}
             </div>
           </div>
         )}
 
         {state === AppState.CAPTURE_COMPLETE && (
           <div className="flex-1 flex flex-col bg-white animate-fade-in">
-            {renderHeader("Capture Ready")}
+            {renderHeader(isSoftware ? "Problem Evidence" : "Capture Ready")}
             <div className="flex-1 overflow-y-auto p-6 flex flex-col">
               <div className="grid grid-cols-2 gap-4 mb-10">
-                 <div className="flex flex-col items-center">
-                    <div className="aspect-[3/4] w-full rounded-2xl overflow-hidden bg-slate-100 border-2 border-slate-50 mb-3 shadow-md">
-                      <img src={`data:image/jpeg;base64,${wideImage}`} className="w-full h-full object-cover" />
-                    </div>
-                    <span className="text-[10px] font-black text-slate-400 uppercase">Context</span>
-                    <button onClick={() => { setWideImage(null); setState(AppState.INITIAL_CAPTURE); }} className="text-blue-600 text-[12px] font-black mt-1">Retake</button>
-                 </div>
-                 <div className="flex flex-col items-center">
-                    <div className="aspect-[3/4] w-full rounded-2xl overflow-hidden bg-slate-100 border-2 border-slate-50 mb-3 shadow-md">
-                      <img src={`data:image/jpeg;base64,${macroImage}`} className="w-full h-full object-cover" />
+                {captureSet.map((capture, i) => (
+                  <button key={capture.id} onClick={() => setEditingCaptureId(capture.id)} className="flex flex-col items-center text-center">
+                    <div className="relative aspect-[3/4] w-full rounded-2xl overflow-hidden bg-slate-100 border-2 border-slate-50 mb-3 shadow-md">
+                      <AnnotatedImage data={capture.data} annotation={capture.annotation} className="w-full h-full" />
+                      <span className="absolute top-2 left-2 w-6 h-6 bg-slate-900/80 text-white rounded-full flex items-center justify-center text-[11px] font-black">{i + 1}</span>
                     </div>
-                    <span className="text-[10px] font-black text-slate-400 uppercase">Detail</span>
-                    <button onClick={() => { setMacroImage(null); setState(AppState.INITIAL_CAPTURE); }} className="text-blue-600 text-[12px] font-black mt-1">Retake</button>
-                 </div>
+                    <span className="text-[10px] font-black text-slate-400 uppercase">{capture.role}</span>
+                    {capture.caption && <span className="text-[12px] text-slate-600 font-bold leading-tight mt-1 line-clamp-2">{capture.caption}</span>}
+                    <span className="text-blue-600 text-[12px] font-black mt-1">Edit</span>
+                  </button>
+                ))}
+                <button
+                  onClick={() => { setCaptureRole(nextSuggestedRole(captureSet) || 'Other'); setState(AppState.INITIAL_CAPTURE); }}
+                  className="aspect-[3/4] w-full rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 flex flex-col items-center justify-center gap-2 active:scale-[0.98] transition-all"
+                >
+                  <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}><path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" /></svg>
+                  <span className="text-[10px] font-black uppercase tracking-widest">Add Photo</span>
+                </button>
+                <MediaImport variant="tile" onImport={(images) => importCaptures(images)} />
               </div>
 
+              {isSoftware && (
+                <div className="mb-10">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Pasted Text</p>
+                  <div className="space-y-3">
+                    {textCaptures.map(capture => (
+                      <button key={capture.id} onClick={() => setEditingTextCapture(capture)} className="w-full text-left bg-slate-900 rounded-2xl p-4 active:scale-[0.98] transition-all">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{capture.kind}</span>
+                          <span className="text-blue-400 text-[12px] font-black">Edit</span>
+                        </div>
+                        <pre className="text-[11px] leading-relaxed font-mono text-slate-200 whitespace-pre-wrap break-all line-clamp-4">{capture.text.trim().split('\n').slice(-4).join('\n')}</pre>
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setEditingTextCapture(createTextCapture(TEXT_CAPTURE_KINDS[0], ''))}
+                      className="w-full rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 py-5 flex items-center justify-center gap-2 active:scale-[0.98] transition-all"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}><path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" /></svg>
+                      <span className="text-[10px] font-black uppercase tracking-widest">Paste Log or Stack Trace</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <div className="flex-1 flex flex-col items-center justify-center text-center">
                  <div className="w-16 h-16 bg-blue-50 text-blue-600 rounded-full flex items-center justify-center mb-6">
                    <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd"></path></svg>
                  </div>
                  <h2 className="text-2xl font-black text-slate-900 tracking-tight">Technical Data Synced</h2>
-                 <p className="text-slate-400 text-sm font-bold mt-2 px-8">Analysis engine is ready to deploy instructions for {mode}.</p>
+                 <p className="text-slate-400 text-sm font-bold mt-2 px-8">Analysis engine is ready to deploy instructions for {domain.name}.</p>
               </div>
 
-              <div className="mt-12">
-                 <button onClick={triggerAnalysis} className="w-full bg-blue-600 text-white py-5 rounded-[24px] font-black text-xl shadow-xl shadow-blue-100 active:scale-[0.98] transition-all flex items-center justify-center gap-3">
+              {voiceDescription && (
+                <div className="mt-8 bg-slate-50 p-5 rounded-2xl border border-slate-100">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Your Description</p>
+                  <p className="text-slate-700 text-[14px] font-bold leading-relaxed">{voiceDescription}</p>
+                </div>
+              )}
+
+              <div className="mt-12 space-y-3">
+                 <button onClick={() => setState(AppState.VOICE_DESCRIPTION)} className="w-full bg-slate-100 text-slate-800 py-4 rounded-[22px] font-black text-base active:scale-[0.98] transition-all">
+                   {voiceDescription ? 'Edit Description' : 'Describe the Problem'}
+                 </button>
+                 <button disabled={!hasEvidence} onClick={() => triggerAnalysis()} className={`w-full bg-blue-600 text-white py-5 rounded-[24px] font-black text-xl shadow-xl shadow-blue-100 active:scale-[0.98] transition-all flex items-center justify-center gap-3 ${!hasEvidence ? 'opacity-50 cursor-not-allowed' : ''}`}>
                    Analyze Situation
                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
                  </button>
@@ -261,6 +975,51 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {state === AppState.VOICE_DESCRIPTION && (
+          <div className="flex-1 flex flex-col bg-white animate-fade-in">
+            {renderHeader("Describe the Problem")}
+            <div className="flex-1 overflow-y-auto p-6 flex flex-col">
+              <div className="text-center mb-8">
+                <h2 className="text-2xl font-black text-slate-900 tracking-tight">What's Happening?</h2>
+                <p className="text-slate-400 text-sm font-bold mt-2 px-6">Sounds, smells, when it started — anything the photos can't show.</p>
+              </div>
+
+              <VoiceRecorder onRecorded={handleVoiceRecorded} disabled={isTranscribing} />
+
+              <div className="mt-10">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Transcript</span>
+                  {isTranscribing && <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest animate-pulse">Transcribing...</span>}
+                </div>
+                <textarea
+                  value={voiceDescription || ''}
+                  onChange={(e) => setVoiceDescription(e.target.value)}
+                  placeholder="Record or type a description..."
+                  rows={5}
+                  className="w-full bg-slate-50 border border-slate-100 rounded-2xl p-5 text-[15px] text-slate-800 font-bold leading-relaxed focus:outline-none focus:border-blue-300 resize-none select-text"
+                />
+                {transcriptionError && (
+                  <p className="mt-3 bg-rose-50 border border-rose-100 text-rose-600 p-3 rounded-2xl text-[12px] font-bold">
+                    That recording could not be transcribed: {transcriptionError} Record again or type the description.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="p-6 space-y-3">
+              <button
+                disabled={isTranscribing || !hasEvidence}
+                onClick={() => triggerAnalysis()}
+                className={`w-full bg-blue-600 text-white py-5 rounded-[24px] font-black text-xl shadow-xl shadow-blue-100 active:scale-[0.98] transition-all flex items-center justify-center gap-3 ${isTranscribing || !hasEvidence ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                Analyze Situation
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+              </button>
+              <button onClick={() => setState(AppState.CAPTURE_COMPLETE)} className="w-full text-slate-400 font-black uppercase tracking-[0.2em] text-[10px] py-2">{isSoftware ? 'Back to Evidence' : 'Back to Photos'}</button>
+            </div>
+          </div>
+        )}
+
         {state === AppState.ANALYZING && (
           <div className="flex-1 flex flex-col items-center justify-center bg-white p-12">
              <div className="relative w-24 h-24 mb-10">
@@ -272,26 +1031,157 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {state === AppState.EVIDENCE_CAPTURE && evidenceRequests[evidenceIdx] && (
+          <div className="flex-1 flex flex-col bg-white">
+            {renderHeader(`Extra Photo ${evidenceIdx + 1} of ${evidenceRequests.length}`)}
+            <CameraView onCapture={handleCapture} isCapturing={isCapturing} />
+            <div className="p-8 text-center animate-slide-up flex flex-col items-center">
+              <h2 className="text-xl font-black text-slate-900 tracking-tight">{evidenceRequests[evidenceIdx].description}</h2>
+              <p className="text-slate-400 text-sm mt-1 mb-8 font-medium">{evidenceRequests[evidenceIdx].reason}</p>
+              <button
+                disabled={isBusy}
+                onClick={() => setIsCapturing(true)}
+                className="w-24 h-24 bg-white border-8 border-slate-100 rounded-full shadow-inner active:scale-90 transition-transform flex items-center justify-center p-2"
+              >
+                <div className="w-full h-full rounded-full bg-blue-600" />
+              </button>
+              <button onClick={() => advanceEvidence(null)} className="text-slate-400 font-black uppercase tracking-[0.2em] text-[10px] py-4 mt-2">Skip This Photo</button>
+            </div>
+          </div>
+        )}
+
+        {state === AppState.ANALYSIS_FAILED && (
+          <div className="flex-1 flex flex-col bg-white animate-fade-in">
+            {renderHeader("Analysis Failed")}
+            <div className="flex-1 overflow-y-auto p-6 flex flex-col">
+              <div className="flex flex-col items-center text-center mt-6 mb-10">
+                <div className="w-20 h-20 bg-rose-50 text-rose-500 rounded-full flex items-center justify-center mb-6">
+                  <svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}><path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+                </div>
+                <h2 className="text-2xl font-black text-slate-900 tracking-tight">{AI_ERROR_COPY[analysisError?.kind || 'UNKNOWN'].title}</h2>
+                <p className="text-slate-500 text-sm font-bold mt-2 px-6 leading-relaxed">{AI_ERROR_COPY[analysisError?.kind || 'UNKNOWN'].message}</p>
+              </div>
+
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Your photos are kept</p>
+              <div className="grid grid-cols-2 gap-4">
+                {captureSet.map(capture => (
+                  <div key={capture.id} className="aspect-[3/4] w-full rounded-2xl overflow-hidden bg-slate-100 border-2 border-slate-50 shadow-md">
+                    <AnnotatedImage data={capture.data} annotation={capture.annotation} className="w-full h-full" />
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-auto pt-10 space-y-3">
+                {analysisError?.kind !== 'SAFETY_BLOCKED' && (
+                  <button onClick={() => triggerAnalysis()} className="w-full bg-blue-600 text-white py-5 rounded-[24px] font-black text-xl shadow-xl shadow-blue-100 active:scale-[0.98] transition-all">
+                    Retry Analysis
+                  </button>
+                )}
+                <button onClick={() => { setCaptureSet([]); setCaptureRole(OVERVIEW_ROLE); setState(AppState.INITIAL_CAPTURE); }} className="w-full bg-slate-100 text-slate-800 py-4 rounded-[22px] font-black text-base active:scale-[0.98] transition-all">
+                  Retake Photos
+                </button>
+                <button onClick={() => setState(AppState.CAPTURE_COMPLETE)} className="w-full text-slate-400 py-3 font-black text-sm">
+                  Back to Review
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {state === AppState.ANALYSIS_COMPLETE && analysis && (
           <div className="flex-1 flex flex-col bg-white animate-fade-in p-6">
             {renderHeader("Assessment Result")}
             <div className="flex-1 overflow-y-auto space-y-6 pt-6">
               <div className="bg-slate-50 p-8 rounded-[40px] border border-slate-100">
                 <div className="flex items-center gap-3 mb-4">
-                   <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-                   <span className="text-[11px] font-black text-slate-400 uppercase tracking-widest">{analysis.severity} SEVERITY DETECTED</span>
+                   <div className={`w-2 h-2 rounded-full animate-pulse ${analysis.severity === 'HIGH' ? 'bg-rose-500' : analysis.severity === 'MEDIUM' ? 'bg-amber-500' : 'bg-emerald-500'}`} />
+                   <span className={`text-[11px] font-black uppercase tracking-widest ${analysis.severity === 'HIGH' ? 'text-rose-500' : analysis.severity === 'MEDIUM' ? 'text-amber-600' : 'text-slate-400'}`}>{analysis.severity} SEVERITY DETECTED</span>
                 </div>
                 <h3 className="text-3xl font-black text-slate-900 leading-tight mb-4 tracking-tight">{analysis.category}</h3>
                 <p className="text-slate-600 font-bold leading-relaxed">{analysis.reasoning}</p>
+
+                <div className="mt-6">
+                  <div className="flex items-baseline justify-between mb-2">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Confidence</span>
+                    <span className={`text-[13px] font-black ${needsMoreEvidence(domain.baseMode, analysis) ? 'text-amber-600' : 'text-emerald-600'}`}>{Math.round(analysis.confidence * 100)}%</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${needsMoreEvidence(domain.baseMode, analysis) ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${analysis.confidence * 100}%` }} />
+                  </div>
+                </div>
+
+                {analysis.template && (
+                  <div className="mt-6 bg-emerald-50 border border-emerald-100 p-4 rounded-[24px]">
+                    <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mb-1">Vetted Procedure</p>
+                    <p className="font-black text-emerald-900 leading-tight">{analysis.template.name} <span className="text-emerald-600">v{analysis.template.version}</span></p>
+                    {Object.entries(analysis.template.parameters).map(([name, value]) => (
+                      <p key={name} className="text-[12px] font-bold text-emerald-700 mt-1">{name}: {value}</p>
+                    ))}
+                  </div>
+                )}
+
+                {analysis.uncertainties && analysis.uncertainties.length > 0 && (
+                  <div className="mt-6 space-y-2">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Uncertain</p>
+                    {analysis.uncertainties.map((u, i) => (
+                      <div key={i} className="flex gap-3 text-[13px] text-slate-600 font-bold leading-relaxed">
+                        <span className="text-amber-500 shrink-0">?</span>
+                        {u}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {analysis.screenText && (
+                  <div className="mt-6">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Read From Screen</p>
+                    <CodeBlocks blocks={analysis.screenText.map(t => ({ kind: 'code', content: t.text, language: t.language, filename: `Image ${t.imageNumber}` }))} />
+                  </div>
+                )}
+
+                {analysis.citations && (
+                  <div className="mt-6">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">From Your Manuals</p>
+                    <SourceCitations citations={analysis.citations} />
+                  </div>
+                )}
               </div>
 
+              {isRequestingEvidence && (
+                <div className="bg-amber-50 p-6 rounded-[32px] border border-amber-100 flex items-center gap-4">
+                  <div className="w-5 h-5 border-2 border-amber-500 border-t-transparent rounded-full animate-spin shrink-0" />
+                  <p className="text-amber-800 text-[13px] font-bold">Low confidence. Working out which photos would help...</p>
+                </div>
+              )}
+
+              {evidenceRequests.length > 0 && (
+                <div className="bg-amber-50 p-6 rounded-[32px] border border-amber-100">
+                  <h4 className="font-black text-amber-900 mb-1">More Evidence Needed</h4>
+                  <p className="text-amber-700 text-[13px] font-bold mb-4">A few extra photos would make this diagnosis more reliable.</p>
+                  <div className="space-y-3 mb-5">
+                    {evidenceRequests.map((r, i) => (
+                      <div key={i} className="flex gap-3">
+                        <span className="w-6 h-6 bg-amber-500 text-white rounded-full flex items-center justify-center text-[12px] font-black shrink-0">{i + 1}</span>
+                        <div>
+                          <p className="text-[14px] font-black text-amber-900">{r.description}</p>
+                          <p className="text-[12px] font-bold text-amber-700">{r.reason}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <button onClick={startEvidenceCapture} className="w-full bg-amber-500 text-white py-4 rounded-[22px] font-black active:scale-[0.98] transition-all">
+                    Capture {evidenceRequests.length} Photo{evidenceRequests.length === 1 ? '' : 's'}
+                  </button>
+                </div>
+              )}
+
               <div className="bg-blue-50 p-6 rounded-[32px] border border-blue-100 flex items-center gap-6">
                  <div className="text-blue-600">
                     <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.168.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
                  </div>
                  <div>
                     <h4 className="font-black text-blue-900">Technical Protocol</h4>
-                    <p className="text-blue-700 text-[13px] font-bold">Standard procedure loaded for {mode}.</p>
+                    <p className="text-blue-700 text-[13px] font-bold">Standard procedure loaded for {domain.name}.</p>
                  </div>
               </div>
             </div>
@@ -312,6 +1202,16 @@ const App: React.FC = () => {
              </div>
              <h2 className="text-3xl font-black text-slate-900 tracking-tight">Loading Protocol</h2>
              <p className="text-slate-400 text-sm mt-3 text-center font-bold px-4">Calibrating AR overlays and verification thresholds...</p>
+             {prefetchProgress.total > 0 && (
+               <div className="w-full max-w-[240px] mt-8">
+                 <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                   <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${(prefetchProgress.done / prefetchProgress.total) * 100}%` }} />
+                 </div>
+                 <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-3 text-center">
+                   Voice guidance {prefetchProgress.done} / {prefetchProgress.total}
+                 </p>
+               </div>
+             )}
           </div>
         )}
 
@@ -326,7 +1226,16 @@ const App: React.FC = () => {
                )}
             </div>
 
-            <div className="flex-1 overflow-y-auto p-6 space-y-8 pb-48">
+            <div className="flex-1 overflow-y-auto p-6 space-y-8 pb-64">
+              {domain.baseMode === AppMode.FIRST_AID && <EmergencyContacts variant="compact" />}
+
+              {recoveryDiagnosis && (
+                <div className="bg-amber-50 border border-amber-100 p-5 rounded-[28px]">
+                  <p className="text-[10px] font-black text-amber-500 uppercase tracking-widest mb-1">Recovery Plan</p>
+                  <p className="text-[14px] text-amber-900 font-bold leading-relaxed">{recoveryDiagnosis}</p>
+                </div>
+              )}
+
               {/* Materials Card */}
               {analysis.steps[currentStepIdx].materials && (
                 <div className="bg-slate-50 p-6 rounded-[32px] border border-slate-100 shadow-sm">
@@ -361,10 +1270,18 @@ const App: React.FC = () => {
                    <h2 className="text-2xl font-black text-slate-900 tracking-tight leading-tight">{analysis.steps[currentStepIdx].title}</h2>
                 </div>
                 
-                <p className="text-[18px] text-slate-700 font-semibold leading-relaxed mb-8">
+                <p className="text-[18px] text-slate-700 font-semibold leading-relaxed mb-6">
                   {analysis.steps[currentStepIdx].instruction}
                 </p>
 
+                {analysis.steps[currentStepIdx].source && (
+                  <SourceCitations citations={[analysis.steps[currentStepIdx].source!]} className="-mt-2 mb-6" />
+                )}
+
+                <div className="mb-8">
+                  <AudioControls text={analysis.steps[currentStepIdx].audioPrompt} />
+                </div>
+
                 {/* Technical Meta */}
                 <div className="grid grid-cols-2 gap-4 mb-10">
                    <div className="bg-blue-50/70 p-4 rounded-2xl border border-blue-100">
@@ -373,10 +1290,13 @@ const App: React.FC = () => {
                    </div>
                    <div className="bg-emerald-50/70 p-4 rounded-2xl border border-emerald-100">
                       <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest mb-1">Status</p>
-                      <p className="text-emerald-800 font-black">Active</p>
+                      <p className="text-emerald-800 font-black">{analysis.steps[currentStepIdx].isRecoveryStep ? 'Recovery' : 'Active'}</p>
                    </div>
                 </div>
 
+                {analysis.steps[currentStepIdx].codeBlocks && <CodeBlocks blocks={analysis.steps[currentStepIdx].codeBlocks!} />}
+                {analysis.steps[currentStepIdx].details && <StepDetails details={analysis.steps[currentStepIdx].details!} />}
+
                 {/* Warnings Section */}
                 {analysis.steps[currentStepIdx].warnings && analysis.steps[currentStepIdx].warnings!.length > 0 && (
                   <div className="space-y-3 mb-8">
@@ -408,8 +1328,20 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {showChat && (
+              <FollowUpChat
+                step={analysis.steps[currentStepIdx]}
+                messages={chatMessages}
+                isBusy={isChatBusy}
+                onSend={sendFollowUp}
+                onClose={() => setShowChat(false)}
+              />
+            )}
+
             {/* Manual Override & Verification Buttons */}
             <div className="fixed bottom-0 left-1/2 -translate-x-1/2 w-full max-w-md p-6 bg-white border-t border-slate-100 flex flex-col gap-3 shadow-[0_-10px_40px_rgba(0,0,0,0.05)]">
+               <VoiceCommandControl onCommand={handleVoiceCommand} disabled={showChat} />
+
                <button 
                 onPointerDown={handleOverrideStart}
                 onPointerUp={handleOverrideEnd}
@@ -420,13 +1352,66 @@ const App: React.FC = () => {
                  <span className="relative z-10">Long Press to Override Auto-Verify</span>
                </button>
                
-               <button 
-                onClick={() => setState(AppState.STEP_VALIDATION)}
-                className="w-full bg-emerald-500 text-white py-5 rounded-[22px] font-black text-lg shadow-xl shadow-emerald-100 active:scale-[0.98] transition-all flex items-center justify-center gap-3"
-               >
-                 Snap to Verify Completion
-                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /></svg>
-               </button>
+               <div className="flex gap-3">
+                 <button
+                  onClick={() => setShowChat(true)}
+                  className="w-16 bg-blue-50 text-blue-600 rounded-[22px] border border-blue-100 flex items-center justify-center active:scale-[0.96] transition-all shrink-0"
+                 >
+                   <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" /></svg>
+                 </button>
+                 <button
+                  onClick={startLiveVerification}
+                  className="w-16 bg-rose-50 text-rose-500 rounded-[22px] border border-rose-100 flex items-center justify-center active:scale-[0.96] transition-all shrink-0"
+                 >
+                   <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                 </button>
+                 <button 
+                  onClick={() => { setVerifyByPhoto(false); setState(AppState.STEP_VALIDATION); }}
+                  className="flex-1 bg-emerald-500 text-white py-5 rounded-[22px] font-black text-lg shadow-xl shadow-emerald-100 active:scale-[0.98] transition-all flex items-center justify-center gap-3"
+                 >
+                   {isSoftware ? 'Verify Step' : 'Snap to Verify'}
+                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /></svg>
+                 </button>
+               </div>
+            </div>
+          </div>
+        )}
+
+        {state === AppState.LIVE_VALIDATION && analysis && (
+          <div className="flex-1 flex flex-col bg-white">
+            {renderHeader("Live Verification", true)}
+            <CameraView
+              onCapture={handleCapture}
+              overlayType={analysis.steps[currentStepIdx].arOverlayType}
+              targetRegion={analysis.steps[currentStepIdx].targetRegion}
+              referenceImage={referenceImageFor(captureSet, analysis.steps[currentStepIdx].targetRegion)}
+              onLiveFrame={(image, motion) => liveVerifier.current?.push(image, motion) ?? 1000}
+            />
+            <div className="p-6 animate-slide-up flex flex-col gap-4">
+              <div className="flex items-center gap-2">
+                <div className="w-2.5 h-2.5 rounded-full bg-rose-500 animate-pulse" />
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Watching · {analysis.steps[currentStepIdx].title}</p>
+              </div>
+              <p className="text-[16px] text-slate-800 font-bold leading-relaxed min-h-[48px]">
+                {liveObservation?.feedback || 'Start the step. Feedback appears here as the camera watches.'}
+              </p>
+              {liveError && (
+                <p className="bg-rose-50 border border-rose-100 text-rose-600 p-3 rounded-2xl text-[12px] font-bold">
+                  Live check interrupted: {liveError} It keeps retrying while the camera runs.
+                </p>
+              )}
+              {(analysis.steps[currentStepIdx].checkpoints || []).map((c, i) => {
+                const met = liveObservation?.metCheckpoints.includes(c);
+                return (
+                  <div key={i} className={`flex items-center gap-3 p-3 rounded-2xl border text-[13px] font-bold transition-colors ${met ? 'bg-emerald-50 border-emerald-100 text-emerald-800' : 'bg-slate-50 border-slate-100 text-slate-500'}`}>
+                    <div className={`w-5 h-5 rounded-full flex items-center justify-center shrink-0 ${met ? 'bg-emerald-500 text-white' : 'border-2 border-slate-300'}`}>
+                      {met && <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={4}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>}
+                    </div>
+                    {c}
+                  </div>
+                );
+              })}
+              <button onClick={stopLiveVerification} className="w-full bg-slate-100 text-slate-800 py-4 rounded-[22px] font-black mt-2">Stop Live Check</button>
             </div>
           </div>
         )}
@@ -446,12 +1431,13 @@ const App: React.FC = () => {
                      {verificationFeedback.success ? "Verification Success" : "Needs Adjustment"}
                    </h2>
                 </div>
-                <p className="text-slate-600 font-bold leading-relaxed mb-10">{verificationFeedback.feedback}</p>
+                <p className={`text-slate-600 font-bold leading-relaxed ${verificationFeedback.citations ? 'mb-4' : 'mb-10'}`}>{verificationFeedback.feedback}</p>
+                {verificationFeedback.citations && <SourceCitations citations={verificationFeedback.citations} className="mb-10" />}
                 <div className="flex gap-4">
                    {!verificationFeedback.success && (
-                     <button onClick={() => setVerificationFeedback(null)} className="flex-1 bg-slate-100 text-slate-800 py-5 rounded-[22px] font-black">Retry Capture</button>
+                     <button onClick={() => { logEvent('VERIFICATION_RETRY', { stepId: analysis!.steps[currentStepIdx].id }); setVerificationFeedback(null); }} className="flex-1 bg-slate-100 text-slate-800 py-5 rounded-[22px] font-black">{isSoftware && !verifyByPhoto ? 'Retry' : 'Retry Capture'}</button>
                    )}
-                   <button onClick={proceedNext} className="flex-1 bg-emerald-500 text-white py-5 rounded-[22px] font-black shadow-lg shadow-emerald-100 flex items-center justify-center gap-2">
+                   <button onClick={() => proceedNext(verificationFeedback.success ? undefined : `Confirmed despite failed verification: ${verificationFeedback.feedback}`)} className="flex-1 bg-emerald-500 text-white py-5 rounded-[22px] font-black shadow-lg shadow-emerald-100 flex items-center justify-center gap-2">
                      Confirm & Proceed
                      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
                    </button>
@@ -465,12 +1451,27 @@ const App: React.FC = () => {
             <div className="w-24 h-24 bg-rose-50 rounded-full flex items-center justify-center mb-8">
               <svg className="w-12 h-12 text-rose-500" fill="currentColor" viewBox="0 0 20 20"><path d="M2 3a1 1 0 011-1h2.153a1 1 0 01.986.836l.74 4.435a1 1 0 01-.54 1.06l-1.548.773a11.037 11.037 0 006.105 6.105l.774-1.548a1 1 0 011.059-.54l4.435.74a1 1 0 01.836.986V17a1 1 0 01-1 1h-2C7.82 18 2 12.18 2 5V3z"></path></svg>
             </div>
-            <h2 className="text-3xl font-black text-slate-900 mb-6 tracking-tight">Emergency Support Required</h2>
-            <p className="text-slate-500 font-bold mb-12 px-6 leading-relaxed">Technical or medical emergency detected. Dialing local first responders immediately.</p>
-            <a href="tel:911" className="w-full bg-rose-600 text-white py-8 rounded-[32px] font-black text-4xl shadow-2xl shadow-rose-200 active:scale-95 transition-all">
-              Dial 911 Now
-            </a>
-            <button onClick={() => setState(AppState.HOME)} className="mt-12 text-slate-400 font-black uppercase tracking-[0.2em] text-[10px]">Back to Dashboard</button>
+            <h2 className="text-3xl font-black text-slate-900 mb-4 tracking-tight">{ESCALATION_CONTENT[domain.baseMode].title}</h2>
+            {escalationReason && (
+              <p className="text-rose-600 text-[11px] font-black uppercase tracking-widest mb-4 px-4">{escalationReason}</p>
+            )}
+            <p className="text-slate-500 font-bold mb-8 px-6 leading-relaxed">{ESCALATION_CONTENT[domain.baseMode].message}</p>
+            <div className="w-full space-y-3 mb-10 text-left">
+              {ESCALATION_CONTENT[domain.baseMode].instructions.map((line, i) => (
+                <div key={i} className="bg-rose-50 border border-rose-100 p-4 rounded-2xl flex gap-4 text-[14px] text-rose-900 font-bold leading-relaxed">
+                  <span className="w-6 h-6 bg-rose-500 text-white rounded-full flex items-center justify-center text-[12px] font-black shrink-0">{i + 1}</span>
+                  {line}
+                </div>
+              ))}
+            </div>
+            {ESCALATION_CONTENT[domain.baseMode].callEmergencyServices && <EmergencyContacts />}
+            {ESCALATION_CONTENT[domain.baseMode].primaryAction && (
+              <button onClick={() => setState(AppState.HOME)} className="w-full bg-rose-600 text-white py-6 rounded-[32px] font-black text-2xl shadow-2xl shadow-rose-200 active:scale-95 transition-all">
+                {ESCALATION_CONTENT[domain.baseMode].primaryAction.label}
+              </button>
+            )}
+            <button onClick={() => setShowAuditLog(true)} className="mt-8 text-blue-600 text-[12px] font-black">View Audit Trail</button>
+            <button onClick={() => setState(AppState.HOME)} className="mt-6 text-slate-400 font-black uppercase tracking-[0.2em] text-[10px]">Back to Dashboard</button>
           </div>
         )}
 
@@ -479,14 +1480,61 @@ const App: React.FC = () => {
             <div className="w-32 h-32 bg-emerald-50 rounded-[50px] flex items-center justify-center mb-10 rotate-6 shadow-xl border border-emerald-100">
               <svg className="w-16 h-16 text-emerald-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={4}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>
             </div>
-            <h2 className="text-4xl font-black text-slate-900 mb-4 tracking-tight">Mission Success</h2>
-            <p className="text-slate-400 font-black text-sm mb-16 uppercase tracking-[0.3em] border-y border-slate-100 py-3">Technical Outcome Verified</p>
+            <h2 className="text-4xl font-black text-slate-900 mb-4 tracking-tight">
+              {analysis?.steps.every(s => stepOutcomes.some(o => o.stepId === s.id && o.status === 'VERIFIED')) ? 'Mission Success' : 'Procedure Complete'}
+            </h2>
+            <p className="text-slate-400 font-black text-sm mb-12 uppercase tracking-[0.2em] border-y border-slate-100 py-3">
+              {analysis ? summarizeOutcomes(analysis.steps, stepOutcomes) : 'No steps recorded'}
+            </p>
+            {sessionId && (
+              <div className="w-full mb-8">
+                <ReportExport session={buildSessionSnapshot(sessionId)} />
+                <button onClick={() => setShowAuditLog(true)} className="mt-4 text-blue-600 text-[12px] font-black">View Audit Trail</button>
+              </div>
+            )}
             <button onClick={() => setState(AppState.HOME)} className="w-full bg-slate-900 text-white py-6 rounded-3xl font-black text-2xl shadow-2xl active:scale-95 transition-all">
               Finish Session
             </button>
           </div>
         )}
 
+        {editingTextCapture && (
+          <TextCaptureEditor
+            key={editingTextCapture.id}
+            capture={editingTextCapture}
+            isNew={!textCaptures.some(t => t.id === editingTextCapture.id)}
+            onSave={saveTextCapture}
+            onRemove={removeTextCapture}
+            onClose={() => setEditingTextCapture(null)}
+          />
+        )}
+
+        {editingCapture && (
+          <CaptureEditor
+            key={editingCapture.id}
+            capture={editingCapture}
+            onSave={saveCapture}
+            onRemove={() => removeCapture(editingCapture.id)}
+            onClose={() => setEditingCaptureId(null)}
+          />
+        )}
+
+        {showAuditLog && <AuditLogView events={auditLog} onClose={() => setShowAuditLog(false)} />}
+
+        {showTemplates && <TemplateLibrary onClose={() => setShowTemplates(false)} />}
+
+        {showKnowledgeBase && <KnowledgeBase onClose={() => setShowKnowledgeBase(false)} />}
+
+        {showProfiles && <ModeProfiles onClose={() => setShowProfiles(false)} />}
+
+        {editingDomain && (
+          <DomainEditor
+            domain={editingDomain}
+            onSaved={(saved) => { setDomains(saved); setEditingDomain(null); }}
+            onClose={() => setEditingDomain(null)}
+          />
+        )}
+
       </main>
 
       <style>{`
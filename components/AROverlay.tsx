@@ -0,0 +1,167 @@
+import React from 'react';
+import { AROverlayType, NormalizedBox } from '../types';
+
+const GLOW = 'filter drop-shadow-[0_0_15px_rgba(59,130,246,0.8)]';
+
+const ArrowOverlay: React.FC = () => (
+  <div className="animate-bounce">
+    <svg className={`w-24 h-24 text-blue-400 ${GLOW}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+    </svg>
+  </div>
+);
+
+const CircleOverlay: React.FC = () => (
+  <div className="relative">
+    <div className="w-40 h-40 rounded-full border-4 border-blue-400 shadow-[0_0_30px_rgba(59,130,246,0.6)]" />
+    <div className="absolute inset-0 w-40 h-40 rounded-full border-4 border-blue-300/60 animate-ping" />
+  </div>
+);
+
+const HandOverlay: React.FC = () => (
+  <div className="text-blue-300 animate-pulse">
+    <svg className={`w-32 h-32 ${GLOW}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11m0-5.5a1.5 1.5 0 013 0v3m0 0V11" />
+    </svg>
+  </div>
+);
+
+const PressOverlay: React.FC = () => (
+  <div className="relative w-32 h-32 flex items-center justify-center">
+    <div className="absolute w-32 h-32 rounded-full bg-rose-400/20 animate-ping" />
+    <div className="absolute w-20 h-20 rounded-full border-4 border-rose-400 shadow-[0_0_25px_rgba(244,63,94,0.6)]" />
+    <svg className="relative w-10 h-10 text-rose-300 animate-bounce" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M19 14l-7 7m0 0l-7-7" />
+    </svg>
+  </div>
+);
+
+const WashOverlay: React.FC = () => (
+  <div className="flex gap-6 text-cyan-300">
+    {[0, 1, 2].map(i => (
+      <svg key={i} className="w-10 h-10 animate-bounce filter drop-shadow-[0_0_10px_rgba(34,211,238,0.8)]" style={{ animationDelay: `${i * 150}ms` }} fill="currentColor" viewBox="0 0 24 24">
+        <path d="M12 2.69l5.66 5.66a8 8 0 11-11.31 0L12 2.69z" />
+      </svg>
+    ))}
+  </div>
+);
+
+const ScanOverlay: React.FC = () => (
+  <div className="w-full h-full border-4 border-blue-400 rounded-3xl overflow-hidden shadow-[0_0_30px_rgba(37,99,235,0.3)]">
+    <div className="relative w-full h-1 bg-blue-500 shadow-[0_0_20px_#3b82f6] animate-[scan_2s_ease-in-out_infinite]" />
+  </div>
+);
+
+const CodeOverlay: React.FC = () => (
+  <div className="w-full bg-slate-900/70 backdrop-blur-sm border-2 border-emerald-400/70 rounded-2xl p-4 font-mono text-emerald-300 text-sm shadow-[0_0_30px_rgba(52,211,153,0.3)]">
+    <div className="flex gap-1.5 mb-3">
+      <div className="w-2.5 h-2.5 rounded-full bg-rose-400" />
+      <div className="w-2.5 h-2.5 rounded-full bg-amber-400" />
+      <div className="w-2.5 h-2.5 rounded-full bg-emerald-400" />
+    </div>
+    <p>&gt; inspect target<span className="animate-pulse">_</span></p>
+  </div>
+);
+
+const BoltOverlay: React.FC = () => (
+  <div className="text-amber-400 animate-pulse">
+    <svg className="w-32 h-32" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" /></svg>
+  </div>
+);
+
+const GearOverlay: React.FC = () => (
+  <div className="text-blue-400/60">
+    <svg className="w-40 h-40 animate-[spin_8s_linear_infinite]" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+      <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+    </svg>
+  </div>
+);
+
+export const AR_OVERLAYS: Record<AROverlayType, React.FC> = {
+  arrow: ArrowOverlay,
+  circle: CircleOverlay,
+  hand: HandOverlay,
+  press: PressOverlay,
+  wash: WashOverlay,
+  scan: ScanOverlay,
+  code: CodeOverlay,
+  bolt: BoltOverlay,
+  gear: GearOverlay
+};
+
+// Where each glyph sits when the step has no target region
+const DEFAULT_PLACEMENT: Record<AROverlayType, string> = {
+  arrow: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+  circle: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+  hand: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+  press: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+  wash: 'top-1/4 left-1/2 -translate-x-1/2',
+  scan: 'inset-x-8 top-1/4 bottom-1/4',
+  code: 'inset-x-10 top-1/3',
+  bolt: 'top-1/3 left-1/2 -translate-x-1/2',
+  gear: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2'
+};
+
+// Where each glyph sits relative to a target region box
+const ANCHORED_PLACEMENT: Record<AROverlayType, string> = {
+  arrow: 'bottom-full left-1/2 -translate-x-1/2',
+  circle: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 scale-75',
+  hand: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 scale-75',
+  press: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+  wash: 'bottom-full left-1/2 -translate-x-1/2 mb-2',
+  scan: 'inset-0',
+  code: 'top-full left-1/2 -translate-x-1/2 mt-8 w-56',
+  bolt: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 scale-50',
+  gear: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 scale-75'
+};
+
+interface AROverlayProps {
+  type?: AROverlayType;
+  // Target box in fractions of the overlay container; the glyph is drawn over it when set
+  anchor?: NormalizedBox | null;
+  label?: string;
+}
+
+const AROverlay: React.FC<AROverlayProps> = ({ type, anchor, label }) => {
+  const Overlay = type ? AR_OVERLAYS[type] : undefined;
+  if (!type || !Overlay) return null;
+
+  if (anchor) {
+    return (
+      <div className="absolute inset-0 pointer-events-none overflow-hidden">
+        <div
+          className="absolute transition-all duration-150 ease-out"
+          style={{
+            left: `${anchor.x * 100}%`,
+            top: `${anchor.y * 100}%`,
+            width: `${anchor.width * 100}%`,
+            height: `${anchor.height * 100}%`
+          }}
+        >
+          <div className="absolute inset-0 border-2 border-dashed border-white/70 rounded-xl" />
+          <div className={`absolute ${ANCHORED_PLACEMENT[type]}`}>
+            <Overlay />
+          </div>
+          {label && (
+            <span className="absolute top-full left-0 mt-1 bg-blue-600 text-white text-[10px] font-black uppercase tracking-wider px-2 py-1 rounded-md whitespace-nowrap">
+              {label}
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
+      <div className="relative w-full h-full">
+        <div className={`absolute ${DEFAULT_PLACEMENT[type]}`}>
+          <Overlay />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AROverlay;
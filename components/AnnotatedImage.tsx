@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { ImageAnnotation } from '../types';
+import { ANNOTATION_COLOR, annotationGeometry, annotationStrokeWidth } from '../services/imageUtils';
+
+interface AnnotatedImageProps {
+  data: string;
+  annotation?: ImageAnnotation;
+  // 'cover' crops like object-cover; 'natural' keeps the image box equal to the photo for drawing on
+  fit?: 'cover' | 'natural';
+  className?: string;
+}
+
+const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ data, annotation, fit = 'cover', className = '' }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const geometry = annotation && size ? annotationGeometry(annotation, size.width, size.height) : null;
+  const stroke = size ? annotationStrokeWidth(size.width, size.height) : 0;
+
+  return (
+    <div className={`relative ${className}`}>
+      <img
+        src={`data:image/jpeg;base64,${data}`}
+        onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        className={fit === 'cover' ? 'w-full h-full object-cover' : 'block max-w-full max-h-[50vh]'}
+        draggable={false}
+      />
+      {geometry && (
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox={`0 0 ${size!.width} ${size!.height}`}
+          preserveAspectRatio={fit === 'cover' ? 'xMidYMid slice' : 'none'}
+          fill="none"
+          stroke={ANNOTATION_COLOR}
+          strokeWidth={stroke}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          {geometry.shape === 'circle' ? (
+            <circle cx={geometry.cx} cy={geometry.cy} r={geometry.r} />
+          ) : (
+            <path d={`M${geometry.tail.x} ${geometry.tail.y}L${geometry.tip.x} ${geometry.tip.y}M${geometry.wings[0].x} ${geometry.wings[0].y}L${geometry.tip.x} ${geometry.tip.y}L${geometry.wings[1].x} ${geometry.wings[1].y}`} />
+          )}
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default AnnotatedImage;
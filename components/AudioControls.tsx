@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import {
+  PLAYBACK_RATES,
+  getPlaybackState,
+  subscribePlayback,
+  speak,
+  pauseAudio,
+  resumeAudio,
+  setPlaybackRate
+} from '../services/audioPlayer';
+
+interface AudioControlsProps {
+  // Spoken again by the replay button
+  text: string;
+}
+
+const AudioControls: React.FC<AudioControlsProps> = ({ text }) => {
+  const [playback, setPlayback] = useState(getPlaybackState());
+
+  useEffect(() => subscribePlayback(setPlayback), []);
+
+  const cycleRate = () => {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playback.rate) + 1) % PLAYBACK_RATES.length];
+    setPlaybackRate(next);
+  };
+
+  const isActive = playback.status === 'PLAYING' || playback.status === 'PAUSED';
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => speak(text)}
+        className="h-10 px-4 rounded-xl bg-slate-100 text-slate-600 flex items-center gap-2 text-[11px] font-black uppercase tracking-widest active:scale-95 transition-all"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}><path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+        Replay
+      </button>
+      <button
+        disabled={!isActive}
+        onClick={playback.status === 'PAUSED' ? resumeAudio : pauseAudio}
+        className={`w-10 h-10 rounded-xl bg-slate-100 text-slate-600 flex items-center justify-center active:scale-95 transition-all ${isActive ? '' : 'opacity-40'}`}
+      >
+        {playback.status === 'PAUSED' ? (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M6.3 2.84A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.27l9.34-5.89a1.5 1.5 0 000-2.54L6.3 2.84z" /></svg>
+        ) : (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M5.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75A.75.75 0 007.25 3h-1.5zM12.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75a.75.75 0 00-.75-.75h-1.5z" /></svg>
+        )}
+      </button>
+      <button
+        onClick={cycleRate}
+        className="h-10 px-3 rounded-xl bg-slate-100 text-slate-600 text-[11px] font-black tracking-widest active:scale-95 transition-all"
+      >
+        {playback.rate}×
+      </button>
+      {playback.status === 'LOADING' && (
+        <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      )}
+      {playback.status === 'PLAYING' && (
+        <div className="flex items-end gap-0.5 h-4">
+          {[0, 1, 2].map(i => <div key={i} className="w-1 h-full bg-blue-500 rounded-full animate-pulse" style={{ animationDelay: `${i * 150}ms` }} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioControls;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { AuditEvent } from '../types';
+import { describeAuditEvent, formatAuditTime } from '../services/auditLog';
+
+interface AuditLogViewProps {
+  events: AuditEvent[];
+  onClose: () => void;
+}
+
+const EVENT_DOT_STYLES: Partial<Record<AuditEvent['type'], string>> = {
+  MANUAL_OVERRIDE: 'bg-amber-500',
+  VERIFICATION_UNAVAILABLE: 'bg-amber-500',
+  ESCALATION: 'bg-rose-500',
+  SESSION_COMPLETED: 'bg-emerald-500'
+};
+
+const AuditLogView: React.FC<AuditLogViewProps> = ({ events, onClose }) => (
+  <div className="fixed inset-0 z-[110] flex items-end justify-center bg-black/40 backdrop-blur-sm p-4 animate-fade-in" onClick={onClose}>
+    <div className="w-full max-w-md bg-white rounded-[40px] p-6 shadow-2xl animate-slide-up max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-black text-slate-900 tracking-tight">Audit Trail</h2>
+        <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {events.length === 0 && <p className="text-slate-400 text-sm font-bold">No events recorded.</p>}
+        {events.map((e, i) => (
+          <div key={i} className="flex gap-3">
+            <div className="flex flex-col items-center">
+              <div className={`w-2.5 h-2.5 rounded-full mt-1.5 shrink-0 ${e.success === false ? 'bg-rose-500' : EVENT_DOT_STYLES[e.type] || 'bg-slate-300'}`} />
+              {i < events.length - 1 && <div className="w-px flex-1 bg-slate-100 mt-1" />}
+            </div>
+            <div className="flex-1 pb-2 min-w-0">
+              <div className="flex items-baseline justify-between gap-2">
+                <p className="text-[13px] font-black text-slate-800">{describeAuditEvent(e)}</p>
+                <span className="text-[10px] font-bold text-slate-400 shrink-0">{formatAuditTime(e.at)}</span>
+              </div>
+              {e.detail && <p className="text-[12px] font-bold text-slate-500 leading-relaxed">{e.detail}</p>}
+              {e.output && <pre className="text-[11px] font-mono text-slate-600 bg-slate-50 rounded-xl p-3 mt-2 max-h-32 overflow-y-auto whitespace-pre-wrap break-all select-text">{e.output}</pre>}
+              {e.image && <img src={`data:image/jpeg;base64,${e.image}`} className="w-20 h-20 rounded-xl object-cover mt-2" />}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default AuditLogView;
@@ -1,17 +1,37 @@
 
 import React, { useRef, useEffect, useState } from 'react';
+import { AROverlayType, NormalizedBox, TargetRegion } from '../types';
+import AROverlay from './AROverlay';
+import { createRegionTracker, grabGrayFrame, coverToContainer, frameDifference, GrayFrame } from '../services/regionTracker';
+
+const TRACKING_INTERVAL_MS = 100;
+// Live frames are kept small; the model needs the gist of the motion, not fine detail
+const LIVE_FRAME_WIDTH = 640;
+const LIVE_FIRST_SAMPLE_MS = 500;
 
 interface CameraViewProps {
   onCapture: (base64: string) => void;
-  overlayType?: string;
+  overlayType?: AROverlayType;
+  // Anchors the overlay to a component in the reference (macro) image and follows it
+  targetRegion?: TargetRegion;
+  referenceImage?: string | null;
   isCapturing?: boolean;
+  // Continuous sampling for live verification; returns the delay before the next frame
+  onLiveFrame?: (base64: string, motion: number) => number;
 }
 
-const CameraView: React.FC<CameraViewProps> = ({ onCapture, overlayType, isCapturing }) => {
+const CameraView: React.FC<CameraViewProps> = ({ onCapture, overlayType, targetRegion, referenceImage, isCapturing, onLiveFrame }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const trackingCanvasRef = useRef<HTMLCanvasElement>(null);
+  const liveCanvasRef = useRef<HTMLCanvasElement>(null);
+  const onLiveFrameRef = useRef(onLiveFrame);
+  onLiveFrameRef.current = onLiveFrame;
+  const [trackedBox, setTrackedBox] = useState<NormalizedBox | null>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
+  const [cameraUnavailable, setCameraUnavailable] = useState(false);
 
   const stopStream = () => {
     if (stream) {
@@ -31,11 +51,13 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture, overlayType, isCaptu
         audio: false 
       });
       setStream(s);
+      setCameraUnavailable(false);
       if (videoRef.current) {
         videoRef.current.srcObject = s;
       }
     } catch (err) {
       console.error("Camera access denied", err);
+      setCameraUnavailable(true);
     }
   };
 
@@ -57,49 +79,98 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture, overlayType, isCaptu
     }
   }, [isCapturing]);
 
+  useEffect(() => {
+    if (!overlayType || !targetRegion) {
+      setTrackedBox(null);
+      return;
+    }
+    const tracker = createRegionTracker(targetRegion.box);
+    setTrackedBox(targetRegion.box);
+
+    // The live frame is first matched against the detail photo, then followed frame to frame
+    let reference: GrayFrame | null = null;
+    let awaitingReference = !!referenceImage;
+    if (referenceImage) {
+      const img = new Image();
+      img.onload = () => {
+        if (trackingCanvasRef.current) {
+          reference = grabGrayFrame(img, img.naturalWidth, img.naturalHeight, trackingCanvasRef.current);
+        }
+        awaitingReference = false;
+      };
+      img.onerror = () => { awaitingReference = false; };
+      img.src = `data:image/jpeg;base64,${referenceImage}`;
+    }
+
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      const canvas = trackingCanvasRef.current;
+      if (!video || !canvas || !video.videoWidth || awaitingReference) return;
+      const frame = grabGrayFrame(video, video.videoWidth, video.videoHeight, canvas);
+      if (!frame) return;
+      if (reference) {
+        tracker.localize(frame, reference);
+        reference = null;
+      }
+      setTrackedBox(tracker.update(frame));
+    }, TRACKING_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [overlayType, targetRegion, referenceImage]);
+
+  useEffect(() => {
+    if (!onLiveFrame) return;
+    const grayCanvas = document.createElement('canvas');
+    let previous: GrayFrame | null = null;
+    let timer = 0;
+
+    const sample = () => {
+      const video = videoRef.current;
+      const canvas = liveCanvasRef.current;
+      let delay = LIVE_FIRST_SAMPLE_MS;
+      if (video && canvas && video.videoWidth && onLiveFrameRef.current) {
+        canvas.width = LIVE_FRAME_WIDTH;
+        canvas.height = Math.round((video.videoHeight * LIVE_FRAME_WIDTH) / video.videoWidth);
+        canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const data = canvas.toDataURL('image/jpeg', 0.7).split(',')[1];
+        const gray = grabGrayFrame(canvas, canvas.width, canvas.height, grayCanvas);
+        const motion = previous && gray ? frameDifference(previous, gray) : 0;
+        previous = gray;
+        delay = onLiveFrameRef.current(data, motion);
+      }
+      timer = window.setTimeout(sample, delay);
+    };
+
+    timer = window.setTimeout(sample, LIVE_FIRST_SAMPLE_MS);
+    return () => clearTimeout(timer);
+  }, [!!onLiveFrame]);
+
+  const displayBox = () => {
+    const video = videoRef.current;
+    const container = containerRef.current;
+    if (!trackedBox || !video || !container) return trackedBox;
+    return coverToContainer(trackedBox, video.videoWidth, video.videoHeight, container.clientWidth, container.clientHeight);
+  };
+
   const toggleCamera = (e: React.MouseEvent) => {
     e.stopPropagation();
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
   };
 
-  const renderAROverlay = () => {
-    if (!overlayType) return null;
-
-    return (
-      <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
-        <div className="relative w-full h-full">
-          {overlayType === 'arrow' && (
-            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 animate-bounce">
-              <svg className="w-24 h-24 text-blue-400 filter drop-shadow-[0_0_15px_rgba(59,130,246,0.8)]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
-              </svg>
-            </div>
-          )}
-          {overlayType === 'gear' && (
-            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-blue-400/60">
-              <svg className="w-40 h-40 animate-[spin_8s_linear_infinite]" fill="currentColor" viewBox="0 0 24 24"><path d="M12 15a3 3 0 100-6 3 3 0 000 6z"/><path fillRule="evenodd" d="M1.323 11.447C2.811 6.976 7.028 3.75 12.001 3.75c4.97 0 9.185 3.223 10.675 7.69l.12.36a.75.75 0 010 .46l-.12.361c-1.49 4.467-5.705 7.69-10.675 7.69-4.973 0-9.19-3.223-10.678-7.69l-.12-.36a.75.75 0 010-.46l.12-.36zM12 5.25c-3.73 0-6.86 2.55-7.89 6 1.03 3.45 4.16 6 7.89 6s6.86-2.55 7.89-6c-1.03-3.45-4.16-6-7.89-6z" clipRule="evenodd"/></svg>
-            </div>
-          )}
-          {overlayType === 'bolt' && (
-            <div className="absolute top-1/3 left-1/2 -translate-x-1/2 text-amber-400 animate-pulse">
-               <svg className="w-32 h-32" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" /></svg>
-            </div>
-          )}
-          {overlayType === 'scan' && (
-             <div className="absolute inset-x-8 top-1/4 bottom-1/4 border-4 border-blue-400 rounded-3xl overflow-hidden shadow-[0_0_30px_rgba(37,99,235,0.3)]">
-                <div className="w-full h-1 bg-blue-500 shadow-[0_0_20px_#3b82f6] animate-[scan_2s_ease-in-out_infinite]" />
-             </div>
-          )}
-        </div>
-      </div>
-    );
-  };
-
   return (
-    <div className="relative w-full aspect-[9/16] bg-slate-900 sm:rounded-b-[48px] overflow-hidden shadow-2xl border-b-4 border-white/10">
+    <div ref={containerRef} className="relative w-full aspect-[9/16] bg-slate-900 sm:rounded-b-[48px] overflow-hidden shadow-2xl border-b-4 border-white/10">
       <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover" />
       <canvas ref={canvasRef} className="hidden" />
-      {renderAROverlay()}
+      <canvas ref={trackingCanvasRef} className="hidden" />
+      <canvas ref={liveCanvasRef} className="hidden" />
+      <AROverlay type={overlayType} anchor={displayBox()} label={targetRegion?.label} />
+
+      {cameraUnavailable && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-center px-10">
+          <p className="text-white font-black text-lg">No camera available</p>
+          <p className="text-white/50 text-[13px] font-bold mt-2">Allow camera access in the browser, or use a device with a camera.</p>
+        </div>
+      )}
       
       {/* Camera Flip Button */}
       <button 
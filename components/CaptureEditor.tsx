@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { CaptureImage, ImageAnnotation, ImagePoint } from '../types';
+import AnnotatedImage from './AnnotatedImage';
+import { CAPTURE_ROLES } from '../services/captureSet';
+
+// Shorter drags are taps, not marks
+const MIN_MARK_SIZE = 0.02;
+
+interface CaptureEditorProps {
+  capture: CaptureImage;
+  onSave: (capture: CaptureImage) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const CaptureEditor: React.FC<CaptureEditorProps> = ({ capture, onSave, onRemove, onClose }) => {
+  const [draft, setDraft] = useState<CaptureImage>(capture);
+  const [shape, setShape] = useState<ImageAnnotation['shape']>(capture.annotation?.shape || 'circle');
+  const [drawing, setDrawing] = useState<ImageAnnotation | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const toPoint = (e: React.PointerEvent): ImagePoint => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPoint(e);
+    setDrawing({ shape, from: point, to: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (drawing) setDrawing({ ...drawing, to: toPoint(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing) return;
+    if (Math.hypot(drawing.to.x - drawing.from.x, drawing.to.y - drawing.from.y) >= MIN_MARK_SIZE) {
+      setDraft({ ...draft, annotation: drawing });
+    }
+    setDrawing(null);
+  };
+
+  const clearMark = () => {
+    const { annotation, ...rest } = draft;
+    setDraft(rest);
+  };
+
+  const save = () => {
+    const caption = draft.caption?.trim();
+    onSave({ ...draft, role: draft.role.trim() || 'Other', caption: caption || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-t-[40px] shadow-2xl animate-slide-up max-h-[92vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-100">
+          <h3 className="text-lg font-black text-slate-900">Edit Photo</h3>
+          <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="flex justify-center bg-slate-900 rounded-[24px] overflow-hidden">
+            <div
+              ref={surfaceRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="relative inline-block touch-none cursor-crosshair"
+            >
+              <AnnotatedImage data={draft.data} annotation={drawing || draft.annotation} fit="natural" />
+            </div>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            {(['circle', 'arrow'] as const).map(s => (
+              <button
+                key={s}
+                onClick={() => setShape(s)}
+                className={`px-4 py-2 rounded-full text-[11px] font-black uppercase tracking-wider ${shape === s ? 'bg-rose-500 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+              >
+                {s}
+              </button>
+            ))}
+            <span className="flex-1 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Drag on the photo</span>
+            {draft.annotation && <button onClick={clearMark} className="text-blue-600 text-[12px] font-black">Clear</button>}
+          </div>
+
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">What It Shows</p>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {CAPTURE_ROLES.map(role => (
+                <button
+                  key={role}
+                  onClick={() => setDraft({ ...draft, role })}
+                  className={`px-3 py-1.5 rounded-full text-[11px] font-black ${draft.role === role ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+                >
+                  {role}
+                </button>
+              ))}
+            </div>
+            <input
+              value={draft.role}
+              onChange={(e) => setDraft({ ...draft, role: e.target.value })}
+              placeholder="Role"
+              className="w-full bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-[14px] text-slate-800 font-bold focus:outline-none focus:border-blue-300 select-text"
+            />
+          </div>
+
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Caption</p>
+            <input
+              value={draft.caption || ''}
+              onChange={(e) => setDraft({ ...draft, caption: e.target.value })}
+              placeholder="e.g. Leaking since this morning"
+              className="w-full bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-[14px] text-slate-800 font-bold focus:outline-none focus:border-blue-300 select-text"
+            />
+          </div>
+        </div>
+
+        <div className="p-6 pt-4 border-t border-slate-100 flex gap-3">
+          <button onClick={onRemove} className="flex-1 bg-rose-50 text-rose-600 py-4 rounded-[22px] font-black border border-rose-100">Remove</button>
+          <button onClick={save} className="flex-1 bg-blue-600 text-white py-4 rounded-[22px] font-black shadow-lg shadow-blue-100">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptureEditor;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { CodeBlock } from '../types';
+import { highlightCode, diffLineType, CodeTokenType } from '../services/syntaxHighlight';
+
+interface CodeBlocksProps {
+  blocks: CodeBlock[];
+}
+
+const TOKEN_STYLES: Record<CodeTokenType, string> = {
+  keyword: 'text-violet-300',
+  string: 'text-emerald-300',
+  comment: 'text-slate-500 italic',
+  number: 'text-amber-300',
+  plain: ''
+};
+
+const DIFF_LINE_STYLES: Record<ReturnType<typeof diffLineType>, string> = {
+  added: 'bg-emerald-500/15 text-emerald-300',
+  removed: 'bg-rose-500/15 text-rose-300',
+  hunk: 'text-sky-300',
+  context: ''
+};
+
+const KIND_LABELS: Record<CodeBlock['kind'], string> = {
+  code: 'Code',
+  diff: 'Change',
+  command: 'Run'
+};
+
+const CopyButton: React.FC<{ text: string }> = ({ text }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      // Clipboard access is denied outside secure contexts; the text stays selectable
+      console.warn("Copy failed:", err);
+    }
+  };
+
+  return (
+    <button onClick={copy} className={`text-[11px] font-black uppercase tracking-widest ${copied ? 'text-emerald-400' : 'text-slate-400'}`}>
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+};
+
+const BlockBody: React.FC<{ block: CodeBlock }> = ({ block }) => {
+  if (block.kind === 'diff') {
+    return (
+      <>
+        {block.content.split('\n').map((line, i) => (
+          <div key={i} className={`px-4 ${DIFF_LINE_STYLES[diffLineType(line)]}`}>{line || ' '}</div>
+        ))}
+      </>
+    );
+  }
+  if (block.kind === 'command') {
+    return (
+      <div className="px-4">
+        {block.content.split('\n').map((line, i) => (
+          <div key={i}><span className="text-slate-500 select-none">{i === 0 ? '$ ' : '  '}</span>{line}</div>
+        ))}
+      </div>
+    );
+  }
+  return (
+    <div className="px-4">
+      {highlightCode(block.content, block.language).map((token, i) => (
+        <span key={i} className={TOKEN_STYLES[token.type]}>{token.text}</span>
+      ))}
+    </div>
+  );
+};
+
+// Diffs and commands are copied exactly as shown, so what the user pastes is what the model wrote
+const CodeBlocks: React.FC<CodeBlocksProps> = ({ blocks }) => (
+  <div className="space-y-4 mb-8">
+    {blocks.map((block, i) => (
+      <div key={i} className="bg-slate-900 rounded-2xl overflow-hidden">
+        <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-white/10">
+          <span className="min-w-0 truncate text-[11px] font-black text-slate-400 uppercase tracking-widest">
+            {KIND_LABELS[block.kind]}{block.filename ? ` · ${block.filename}` : block.language ? ` · ${block.language}` : ''}
+          </span>
+          <CopyButton text={block.content} />
+        </div>
+        <pre className="py-3 text-[12px] leading-relaxed font-mono text-slate-100 overflow-x-auto select-text">
+          <BlockBody block={block} />
+        </pre>
+      </div>
+    ))}
+  </div>
+);
+
+export default CodeBlocks;
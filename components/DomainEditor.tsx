@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { AppMode, Domain, DOMAIN_COLORS, DOMAIN_ICONS } from '../types';
+import { saveDomain, deleteDomain, getCustomDomains, BUILT_IN_DOMAINS } from '../services/domains';
+import DomainIcon, { DOMAIN_COLOR_CLASSES } from './DomainIcon';
+
+interface DomainEditorProps {
+  domain: Domain;
+  onSaved: (domains: Domain[]) => void;
+  onClose: () => void;
+}
+
+const INPUT = 'w-full bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-[14px] text-slate-800 font-bold focus:outline-none focus:border-blue-300 select-text';
+const LABEL = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block';
+
+const DomainEditor: React.FC<DomainEditorProps> = ({ domain, onSaved, onClose }) => {
+  const [draft, setDraft] = useState<Domain>(domain);
+  const [error, setError] = useState<string | null>(null);
+  const isNew = !getCustomDomains().some(d => d.id === domain.id);
+
+  const save = () => {
+    try {
+      onSaved(saveDomain(draft));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Domain is invalid');
+    }
+  };
+
+  const remove = () => {
+    if (!window.confirm(`Delete "${domain.name}"? Its sessions keep its safety rules; its procedures and documents are kept under general guidance.`)) return;
+    onSaved(deleteDomain(domain.id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-end justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-t-[40px] shadow-2xl animate-slide-up h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-100">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className={`${DOMAIN_COLOR_CLASSES[draft.color]} text-white w-11 h-11 rounded-2xl flex items-center justify-center shrink-0`}>
+              <DomainIcon icon={draft.icon} className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-black text-slate-900 tracking-tight truncate">{isNew ? 'New Domain' : 'Edit Domain'}</h2>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate">{draft.name || 'Custom expertise'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div>
+            <label className={LABEL}>Name</label>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. HVAC, Aquarium care, 3D printers" className={INPUT} />
+          </div>
+
+          <div>
+            <label className={LABEL}>Expert Persona</label>
+            <textarea
+              value={draft.persona}
+              onChange={(e) => setDraft({ ...draft, persona: e.target.value })}
+              placeholder="Act as a certified HVAC technician. Identify units by their nameplate and cut power at the disconnect before any hands-on step."
+              rows={4}
+              className={`${INPUT} resize-none`}
+            />
+            <p className="text-[12px] text-slate-400 font-bold mt-2">Starts the domain's system prompt; fine-tune it later under Mode Profiles.</p>
+          </div>
+
+          <div>
+            <label className={LABEL}>Safety Rules</label>
+            <select value={draft.baseMode} onChange={(e) => setDraft({ ...draft, baseMode: e.target.value as AppMode })} className={INPUT}>
+              {BUILT_IN_DOMAINS.map(d => <option key={d.id} value={d.baseMode}>Same as {d.name}</option>)}
+            </select>
+            <p className="text-[12px] text-slate-400 font-bold mt-2">When to escalate, how many failed checks are allowed and what to do in an emergency.</p>
+          </div>
+
+          <div>
+            <span className={LABEL}>Icon</span>
+            <div className="grid grid-cols-7 gap-2">
+              {DOMAIN_ICONS.map(icon => (
+                <button
+                  key={icon}
+                  onClick={() => setDraft({ ...draft, icon })}
+                  className={`aspect-square rounded-2xl flex items-center justify-center ${draft.icon === icon ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+                >
+                  <DomainIcon icon={icon} className="w-5 h-5" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className={LABEL}>Colour</span>
+            <div className="flex flex-wrap gap-3">
+              {DOMAIN_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => setDraft({ ...draft, color })}
+                  aria-label={color}
+                  className={`${DOMAIN_COLOR_CLASSES[color]} w-9 h-9 rounded-full ${draft.color === color ? 'ring-4 ring-offset-2 ring-slate-300' : ''}`}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 pt-4 border-t border-slate-100">
+          {error && <p className="text-[12px] font-bold text-rose-500 mb-3">{error}</p>}
+          <div className="flex gap-3">
+            {!isNew && <button onClick={remove} className="flex-1 bg-slate-100 text-rose-600 py-4 rounded-[22px] font-black">Delete</button>}
+            <button onClick={save} className="flex-1 bg-blue-600 text-white py-4 rounded-[22px] font-black shadow-lg shadow-blue-100">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DomainEditor;
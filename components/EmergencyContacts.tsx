@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { EmergencyContact } from '../types';
+import {
+  EMERGENCY_REGIONS,
+  resolveRegion,
+  getSelectedRegion,
+  setSelectedRegion,
+  getEmergencyContacts,
+  addCustomContact,
+  removeCustomContact,
+  toTelHref
+} from '../services/emergencyContacts';
+
+interface EmergencyContactsProps {
+  variant?: 'full' | 'compact';
+}
+
+const EmergencyContacts: React.FC<EmergencyContactsProps> = ({ variant = 'full' }) => {
+  const [region, setRegion] = useState(resolveRegion);
+  const [regionOverride, setRegionOverride] = useState(getSelectedRegion);
+  const [contacts, setContacts] = useState<EmergencyContact[]>(() => getEmergencyContacts(region));
+  const [showManage, setShowManage] = useState(false);
+  const [newLabel, setNewLabel] = useState('');
+  const [newNumber, setNewNumber] = useState('');
+
+  const refresh = () => {
+    const next = resolveRegion();
+    setRegion(next);
+    setContacts(getEmergencyContacts(next));
+  };
+
+  const handleRegionChange = (code: string) => {
+    setSelectedRegion(code || null);
+    setRegionOverride(code || null);
+    refresh();
+  };
+
+  const handleAddContact = () => {
+    if (!newLabel.trim() || !newNumber.trim()) return;
+    addCustomContact(newLabel.trim(), newNumber.trim());
+    setNewLabel('');
+    setNewNumber('');
+    refresh();
+  };
+
+  const handleRemoveContact = (id: string) => {
+    removeCustomContact(id);
+    refresh();
+  };
+
+  const [primary, ...secondary] = contacts;
+
+  if (variant === 'compact') {
+    return (
+      <a href={toTelHref(primary.number)} className="flex items-center justify-center gap-2 bg-rose-50 border border-rose-100 text-rose-600 py-3 rounded-2xl font-black text-sm active:scale-[0.98] transition-all">
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M2 3a1 1 0 011-1h2.153a1 1 0 01.986.836l.74 4.435a1 1 0 01-.54 1.06l-1.548.773a11.037 11.037 0 006.105 6.105l.774-1.548a1 1 0 011.059-.54l4.435.74a1 1 0 01.836.986V17a1 1 0 01-1 1h-2C7.82 18 2 12.18 2 5V3z"></path></svg>
+        Emergency? Call {primary.number}
+      </a>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <a href={toTelHref(primary.number)} className="block w-full bg-rose-600 text-white py-8 rounded-[32px] font-black text-4xl shadow-2xl shadow-rose-200 active:scale-95 transition-all text-center">
+        Dial {primary.number} Now
+      </a>
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-3 text-center">{primary.label} · {region.name}</p>
+
+      {secondary.length > 0 && (
+        <div className="grid grid-cols-2 gap-3 mt-6">
+          {secondary.map(c => (
+            <a key={c.id} href={toTelHref(c.number)} className="bg-rose-50 border border-rose-100 p-4 rounded-2xl text-left active:scale-[0.97] transition-all">
+              <p className="text-[10px] font-black text-rose-400 uppercase tracking-widest mb-1">{c.label}</p>
+              <p className="text-rose-800 font-black">{c.number}</p>
+            </a>
+          ))}
+        </div>
+      )}
+
+      <button onClick={() => setShowManage(v => !v)} className="mt-6 text-blue-600 text-[12px] font-black">
+        {showManage ? 'Done' : 'Change Region or Add Contacts'}
+      </button>
+
+      {showManage && (
+        <div className="mt-4 bg-slate-50 border border-slate-100 rounded-2xl p-5 text-left space-y-4 animate-fade-in">
+          <div>
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Region</label>
+            <select
+              value={regionOverride || ''}
+              onChange={(e) => handleRegionChange(e.target.value)}
+              className="w-full mt-1 bg-white border border-slate-200 rounded-xl p-3 text-[14px] font-bold text-slate-800"
+            >
+              <option value="">Automatic ({region.name})</option>
+              {EMERGENCY_REGIONS.map(r => (
+                <option key={r.code} value={r.code}>{r.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Custom Contacts</label>
+            {contacts.filter(c => c.kind === 'custom').map(c => (
+              <div key={c.id} className="flex items-center justify-between bg-white border border-slate-100 rounded-xl p-3 mt-2">
+                <div>
+                  <p className="text-[13px] font-black text-slate-800">{c.label}</p>
+                  <p className="text-[12px] font-bold text-slate-400">{c.number}</p>
+                </div>
+                <button onClick={() => handleRemoveContact(c.id)} className="text-rose-500 text-[12px] font-black">Remove</button>
+              </div>
+            ))}
+            <div className="flex gap-2 mt-2">
+              <input value={newLabel} onChange={(e) => setNewLabel(e.target.value)} placeholder="Name" className="flex-1 min-w-0 bg-white border border-slate-200 rounded-xl p-3 text-[13px] font-bold select-text" />
+              <input value={newNumber} onChange={(e) => setNewNumber(e.target.value)} placeholder="Number" type="tel" className="flex-1 min-w-0 bg-white border border-slate-200 rounded-xl p-3 text-[13px] font-bold select-text" />
+            </div>
+            <button onClick={handleAddContact} className="w-full mt-2 bg-slate-900 text-white py-3 rounded-xl font-black text-sm">Add Contact</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmergencyContacts;
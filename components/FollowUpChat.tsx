@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, GuidanceStep } from '../types';
+import VoiceRecorder from './VoiceRecorder';
+import SourceCitations from './SourceCitations';
+import { transcribeAudio } from '../services/aiService';
+import { fileToJpegBase64 } from '../services/imageUtils';
+
+interface FollowUpChatProps {
+  step: GuidanceStep;
+  messages: ChatMessage[];
+  isBusy: boolean;
+  onSend: (text: string, image?: string) => void;
+  onClose: () => void;
+}
+
+const FollowUpChat: React.FC<FollowUpChatProps> = ({ step, messages, isBusy, onSend, onClose }) => {
+  const [text, setText] = useState('');
+  const [image, setImage] = useState<string | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, isBusy]);
+
+  const handleRecorded = async (base64Audio: string, mimeType: string) => {
+    setIsTranscribing(true);
+    try {
+      const transcript = await transcribeAudio(base64Audio, mimeType);
+      if (transcript) setText(prev => prev ? `${prev} ${transcript}` : transcript);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImage(await fileToJpegBase64(file));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const send = () => {
+    if (isBusy || (!text.trim() && !image)) return;
+    onSend(text.trim() || 'What do you see in this photo?', image || undefined);
+    setText('');
+    setImage(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-t-[40px] shadow-2xl animate-slide-up h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-100">
+          <div className="min-w-0">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Ask About</p>
+            <h2 className="text-lg font-black text-slate-900 tracking-tight truncate">{step.title}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-4">
+          {messages.length === 0 && (
+            <p className="text-slate-400 text-sm font-bold text-center px-6 mt-8">Stuck? Ask a question, describe what you see, or send a photo.</p>
+          )}
+          {messages.map((m, i) => (
+            <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] rounded-[22px] p-4 text-[14px] font-bold leading-relaxed select-text ${m.role === 'user' ? 'bg-blue-600 text-white rounded-br-md' : 'bg-slate-100 text-slate-800 rounded-bl-md'}`}>
+                {m.image && <img src={`data:image/jpeg;base64,${m.image}`} className="w-full rounded-xl mb-2" />}
+                {m.text}
+                {m.citations && <SourceCitations citations={m.citations} className="mt-3" />}
+              </div>
+            </div>
+          ))}
+          {isBusy && (
+            <div className="flex justify-start">
+              <div className="bg-slate-100 rounded-[22px] rounded-bl-md px-5 py-4 flex gap-1.5">
+                {[0, 1, 2].map(i => <div key={i} className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: `${i * 150}ms` }} />)}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100">
+          {image && (
+            <div className="relative w-16 h-16 mb-3">
+              <img src={`data:image/jpeg;base64,${image}`} className="w-16 h-16 rounded-xl object-cover" />
+              <button onClick={() => setImage(null)} className="absolute -top-2 -right-2 w-6 h-6 bg-slate-900 text-white rounded-full text-xs font-black">×</button>
+            </div>
+          )}
+          <div className="flex gap-2 items-center">
+            <input ref={fileInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFile} />
+            <button onClick={() => fileInputRef.current?.click()} className="w-12 h-12 rounded-2xl bg-slate-100 text-slate-600 flex items-center justify-center shrink-0">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+            </button>
+            <VoiceRecorder compact onRecorded={handleRecorded} disabled={isTranscribing} />
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') send(); }}
+              placeholder={isTranscribing ? 'Transcribing...' : 'Ask a question...'}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-100 rounded-2xl px-4 h-12 text-[14px] font-bold text-slate-800 focus:outline-none focus:border-blue-300 select-text"
+            />
+            <button
+              onClick={send}
+              disabled={isBusy}
+              className={`w-12 h-12 rounded-2xl bg-blue-600 text-white flex items-center justify-center shrink-0 ${isBusy ? 'opacity-50' : ''}`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FollowUpChat;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppMode, DomainId, KnowledgeDocument } from '../types';
+import { listDocuments, addDocument, deleteDocument } from '../services/knowledgeBase';
+import { getDomains, groupByDomain } from '../services/domains';
+
+interface KnowledgeBaseProps {
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<KnowledgeDocument['format'], string> = {
+  pdf: 'PDF',
+  markdown: 'Markdown',
+  text: 'Text'
+};
+
+const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onClose }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [mode, setMode] = useState<DomainId>(AppMode.GENERAL);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listDocuments()
+      .then(setDocuments)
+      .catch(err => console.warn("Knowledge base lookup failed:", err));
+  }, []);
+
+  // Files are indexed one at a time; a file that cannot be read does not stop the rest
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    setMessage(null);
+    const added: string[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      setProgress(`Indexing ${file.name}...`);
+      try {
+        await addDocument(file, mode);
+        added.push(file.name);
+      } catch (err) {
+        console.error(err);
+        failed.push(`${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+      }
+    }
+    setProgress(null);
+    setDocuments(await listDocuments());
+    if (failed.length) setMessage({ text: failed.join(' '), isError: true });
+    else if (added.length) setMessage({ text: `Added ${added.join(', ')}`, isError: false });
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!window.confirm(`Remove "${document.name}" from the knowledge base?`)) return;
+    await deleteDocument(document);
+    setDocuments(prev => prev.filter(d => d.id !== document.id));
+  };
+
+  const byMode = groupByDomain<KnowledgeDocument>(documents);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-end justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-t-[40px] shadow-2xl animate-slide-up h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-black text-slate-900 tracking-tight">Manuals & Documents</h2>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Stored and searched on this device</p>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {message && (
+            <p className={`text-[12px] font-bold ${message.isError ? 'text-rose-500' : 'text-emerald-600'}`}>{message.text}</p>
+          )}
+          {documents.length === 0 && (
+            <p className="text-slate-400 text-sm font-bold text-center py-8">No documents yet. Add service manuals, datasheets or SOPs as PDF, Markdown or text; answers will cite them.</p>
+          )}
+          {byMode.map(group => (
+            <div key={group.domain.id}>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">{group.domain.name}</p>
+              <div className="space-y-3">
+                {group.items.map(d => (
+                  <div key={d.id} className="bg-white border border-slate-100 rounded-[24px] shadow-sm p-4 flex items-center gap-3">
+                    <div className="min-w-0 flex-1">
+                      <h4 className="font-black text-slate-900 leading-tight truncate">{d.name}</h4>
+                      <p className="text-[11px] font-bold text-slate-400 mt-1">
+                        {FORMAT_LABELS[d.format]}{d.pageCount ? ` · ${d.pageCount} page${d.pageCount === 1 ? '' : 's'}` : ''} · {d.passageCount} passage{d.passageCount === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <button onClick={() => handleDelete(d)} className="text-slate-300 text-[12px] font-black shrink-0">Remove</button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 pt-4 border-t border-slate-100 space-y-3">
+          <select value={mode} onChange={(e) => setMode(e.target.value)} className="w-full bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-[14px] text-slate-800 font-bold focus:outline-none focus:border-blue-300">
+            {getDomains().map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+          </select>
+          <input ref={fileInputRef} type="file" accept=".pdf,.md,.markdown,.txt,application/pdf,text/markdown,text/plain" multiple className="hidden" onChange={handleFiles} />
+          <button
+            disabled={!!progress}
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full bg-blue-600 text-white py-4 rounded-[22px] font-black shadow-lg shadow-blue-100 disabled:opacity-60"
+          >
+            {progress || 'Add Documents'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeBase;
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImportedImage, importMediaFiles, mediaFiles } from '../services/mediaImport';
+import { MAX_VIDEO_SECONDS } from '../services/imageUtils';
+
+interface MediaImportProps {
+  onImport: (images: ImportedImage[]) => void;
+  // 'tile' fits the capture review grid; 'button' sits under the camera shutter
+  variant?: 'tile' | 'button';
+  disabled?: boolean;
+}
+
+// Besides its picker button, listens for pasted and dropped files anywhere on the page while mounted
+const MediaImport: React.FC<MediaImportProps> = ({ onImport, variant = 'button', disabled }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importRef = useRef<(files: File[]) => void>(() => {});
+
+  importRef.current = async (files: File[]) => {
+    if (disabled || isImporting || !files.length) return;
+    setError(null);
+    setIsImporting(true);
+    try {
+      const images = await importMediaFiles(files);
+      if (images.length) onImport(images);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = mediaFiles(e.clipboardData);
+      if (!files.length) return;
+      e.preventDefault();
+      importRef.current(files);
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDragging(true);
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      // Leaving a child element also fires dragleave; only the window edge ends the drag
+      if (!e.relatedTarget) setIsDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      importRef.current(mediaFiles(e.dataTransfer));
+    };
+    window.addEventListener('paste', handlePaste);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('paste', handlePaste);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = mediaFiles(e.target.files);
+    e.target.value = '';
+    importRef.current(files);
+  };
+
+  const icon = (
+    <svg className={variant === 'tile' ? 'w-8 h-8' : 'w-4 h-4'} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+  );
+
+  return (
+    <>
+      <input ref={fileInputRef} type="file" accept="image/*,video/*" multiple className="hidden" onChange={handleFiles} />
+
+      {variant === 'tile' ? (
+        <button
+          disabled={disabled || isImporting}
+          onClick={() => fileInputRef.current?.click()}
+          className="aspect-[3/4] w-full rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 flex flex-col items-center justify-center gap-2 px-3 text-center active:scale-[0.98] transition-all"
+        >
+          {icon}
+          <span className="text-[10px] font-black uppercase tracking-widest">{isImporting ? 'Importing...' : 'Import'}</span>
+          <span className="text-[10px] font-bold text-slate-300 leading-tight">Photos, paste, drop or clips up to {MAX_VIDEO_SECONDS}s</span>
+          {error && <span className="text-[11px] font-bold text-rose-500 leading-tight">{error}</span>}
+        </button>
+      ) : (
+        <div className="flex flex-col items-center">
+          <button
+            disabled={disabled || isImporting}
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 text-blue-600 text-[12px] font-black py-2"
+          >
+            {icon}
+            {isImporting ? 'Importing...' : 'Import Photo or Video'}
+          </button>
+          {error && <p className="text-[11px] font-bold text-rose-500">{error}</p>}
+        </div>
+      )}
+
+      {isDragging && (
+        <div className="fixed inset-0 z-[100] bg-blue-600/80 backdrop-blur-sm flex items-center justify-center pointer-events-none animate-fade-in">
+          <p className="text-white text-2xl font-black tracking-tight">Drop photos or a video</p>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MediaImport;
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { AppMode, DomainId, ModeProfile, ProfileField, STEP_DETAIL_FIELDS, StepDetailField, VerificationStrictness } from '../types';
+import { getProfile, saveProfile, resetProfile, getProfileHistory, restoreProfileVersion, MAX_STEPS, VERIFICATION_STRICTNESS, PROFILE_FIELD_TYPES } from '../services/modeProfiles';
+import { getDomain, getDomains } from '../services/domains';
+import { verificationFailureLimit } from '../services/safetyPolicy';
+
+interface ModeProfilesProps {
+  onClose: () => void;
+}
+
+const INPUT = 'w-full bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-[14px] text-slate-800 font-bold focus:outline-none focus:border-blue-300 select-text';
+const LABEL = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block';
+
+const STRICTNESS_HINTS: Record<VerificationStrictness, string> = {
+  LENIENT: 'Passes when the goal is clearly achieved',
+  STANDARD: 'Judges the photo against the instruction',
+  STRICT: 'Fails anything ambiguous or out of frame'
+};
+
+const ModeProfiles: React.FC<ModeProfilesProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState<ModeProfile>(() => getProfile(AppMode.FIRST_AID));
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const failureLimit = verificationFailureLimit(getDomain(draft.mode).baseMode);
+
+  const selectMode = (mode: DomainId) => {
+    setDraft(getProfile(mode));
+    setMessage(null);
+  };
+
+  const toggleRequired = (field: StepDetailField) => {
+    const requiredFields = draft.requiredFields.includes(field)
+      ? draft.requiredFields.filter(f => f !== field)
+      : [...draft.requiredFields, field];
+    setDraft({ ...draft, requiredFields });
+  };
+
+  const updateField = (idx: number, patch: Partial<ProfileField>) => {
+    setDraft({ ...draft, extraFields: draft.extraFields.map((f, i) => (i === idx ? { ...f, ...patch } : f)) });
+  };
+
+  const save = () => {
+    try {
+      const saved = saveProfile(draft);
+      setDraft(saved);
+      setMessage({ text: `Saved as version ${saved.version}`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Profile is invalid', isError: true });
+    }
+  };
+
+  const reset = () => {
+    if (!window.confirm(`Restore the default profile for ${getDomain(draft.mode).name}?`)) return;
+    const saved = resetProfile(draft.mode);
+    setDraft(saved);
+    setMessage({ text: `Defaults restored as version ${saved.version}`, isError: false });
+  };
+
+  const restore = (version: number) => {
+    if (!window.confirm(`Restore version ${version} of the ${getDomain(draft.mode).name} profile? Unsaved edits are discarded.`)) return;
+    try {
+      const saved = restoreProfileVersion(draft.mode, version);
+      setDraft(saved);
+      setMessage({ text: `Version ${version} restored as version ${saved.version}`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Version could not be restored', isError: true });
+    }
+  };
+
+  const history = getProfileHistory(draft.mode);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-end justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-t-[40px] shadow-2xl animate-slide-up h-[92vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-black text-slate-900 tracking-tight">Mode Profiles</h2>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{getDomain(draft.mode).name} · Version {draft.version}</p>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto px-6 py-4 border-b border-slate-100 shrink-0">
+          {getDomains().map(d => (
+            <button
+              key={d.id}
+              onClick={() => selectMode(d.id)}
+              className={`px-3 py-1.5 rounded-full text-[11px] font-black whitespace-nowrap ${draft.mode === d.id ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+            >
+              {d.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div>
+            <label className={LABEL}>System Prompt</label>
+            <textarea
+              value={draft.systemPrompt}
+              onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+              rows={5}
+              className={`${INPUT} resize-none`}
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className={LABEL}>Min Steps</label>
+              <input type="number" min={1} max={MAX_STEPS} value={draft.minSteps} onChange={(e) => setDraft({ ...draft, minSteps: Number(e.target.value) })} className={INPUT} />
+            </div>
+            <div className="flex-1">
+              <label className={LABEL}>Max Steps</label>
+              <input type="number" min={1} max={MAX_STEPS} value={draft.maxSteps} onChange={(e) => setDraft({ ...draft, maxSteps: Number(e.target.value) })} className={INPUT} />
+            </div>
+          </div>
+
+          <div>
+            <span className={LABEL}>Required On Every Step</span>
+            <div className="flex flex-wrap gap-2">
+              {STEP_DETAIL_FIELDS.map(field => (
+                <button
+                  key={field}
+                  onClick={() => toggleRequired(field)}
+                  className={`px-3 py-1.5 rounded-full text-[11px] font-black capitalize ${draft.requiredFields.includes(field) ? 'bg-blue-600 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+                >
+                  {field}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className={LABEL}>Verification</span>
+            <div className="grid grid-cols-3 gap-2">
+              {VERIFICATION_STRICTNESS.map(level => (
+                <button
+                  key={level}
+                  onClick={() => setDraft({ ...draft, verificationStrictness: level })}
+                  className={`py-3 rounded-2xl text-[11px] font-black uppercase tracking-wider ${draft.verificationStrictness === level ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+            <p className="text-[12px] text-slate-400 font-bold mt-2">{STRICTNESS_HINTS[draft.verificationStrictness]}</p>
+          </div>
+
+          <div>
+            <span className={LABEL}>Re-plan After Failed Checks</span>
+            <div className="flex flex-wrap gap-2">
+              {[null, ...Array.from({ length: failureLimit - 1 }, (_, i) => i + 1)].map(count => (
+                <button
+                  key={count ?? 'never'}
+                  onClick={() => setDraft({ ...draft, recoverAfterFailures: count })}
+                  className={`px-4 py-2 rounded-full text-[11px] font-black ${draft.recoverAfterFailures === count ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+                >
+                  {count ?? 'Never'}
+                </button>
+              ))}
+            </div>
+            <p className="text-[12px] text-slate-400 font-bold mt-2">
+              {draft.recoverAfterFailures === null
+                ? `Escalates after ${failureLimit} failed checks without trying a new approach.`
+                : `The model plans a new approach after ${draft.recoverAfterFailures} failed check${draft.recoverAfterFailures === 1 ? '' : 's'}; ${failureLimit} escalate.`}
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Extra Step Fields</span>
+              <button onClick={() => setDraft({ ...draft, extraFields: [...draft.extraFields, { key: '', label: '', description: '', type: 'list' }] })} className="text-blue-600 text-[12px] font-black">Add</button>
+            </div>
+            <p className="text-[12px] text-slate-400 font-bold mb-3">Domain data the model fills in where it applies, such as torque specs or pinouts.</p>
+            <div className="space-y-3">
+              {draft.extraFields.map((f, i) => (
+                <div key={i} className="bg-slate-50 border border-slate-100 rounded-2xl p-3 space-y-2">
+                  <div className="flex gap-2">
+                    <input value={f.key} onChange={(e) => updateField(i, { key: e.target.value.replace(/\W/g, '') })} placeholder="key" className={INPUT} />
+                    <select value={f.type} onChange={(e) => updateField(i, { type: e.target.value as ProfileField['type'] })} className={`${INPUT} w-28 shrink-0`}>
+                      {PROFILE_FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <button onClick={() => setDraft({ ...draft, extraFields: draft.extraFields.filter((_, j) => j !== i) })} className="px-2 text-slate-300 shrink-0">
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                  </div>
+                  <input value={f.label} onChange={(e) => updateField(i, { label: e.target.value })} placeholder="Label shown on the step" className={INPUT} />
+                  <textarea value={f.description} onChange={(e) => updateField(i, { description: e.target.value })} placeholder="What the model should put here" rows={2} className={`${INPUT} resize-none`} />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {history.length > 0 && (
+            <div>
+              <span className={LABEL}>Version History</span>
+              <div className="space-y-2">
+                {history.map(p => (
+                  <div key={p.version} className="flex items-center gap-3 bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[13px] font-black text-slate-800">Version {p.version}</p>
+                      <p className="text-[11px] font-bold text-slate-400 truncate">{new Date(p.updatedAt).toLocaleString()} · {p.systemPrompt}</p>
+                    </div>
+                    {p.version === history[0].version
+                      ? <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest shrink-0">Current</span>
+                      : <button onClick={() => restore(p.version)} className="text-blue-600 text-[12px] font-black shrink-0">Restore</button>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 pt-4 border-t border-slate-100">
+          {message && <p className={`text-[12px] font-bold mb-3 ${message.isError ? 'text-rose-500' : 'text-emerald-600'}`}>{message.text}</p>}
+          <div className="flex gap-3">
+            <button onClick={reset} className="flex-1 bg-slate-100 text-slate-800 py-4 rounded-[22px] font-black">Reset</button>
+            <button onClick={save} className="flex-1 bg-blue-600 text-white py-4 rounded-[22px] font-black shadow-lg shadow-blue-100">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModeProfiles;
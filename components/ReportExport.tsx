@@ -0,0 +1,32 @@
+import React from 'react';
+import { Session } from '../types';
+import { exportReport, ReportFormat } from '../services/reportExport';
+
+interface ReportExportProps {
+  session: Session;
+}
+
+const FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'pdf', label: 'Print / PDF' }
+];
+
+const ReportExport: React.FC<ReportExportProps> = ({ session }) => (
+  <div className="w-full">
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Export Report</p>
+    <div className="grid grid-cols-3 gap-2">
+      {FORMATS.map(f => (
+        <button
+          key={f.format}
+          onClick={(e) => { e.stopPropagation(); exportReport(session, f.format); }}
+          className="bg-slate-100 text-slate-800 py-3 rounded-xl font-black text-[12px] active:scale-[0.97] transition-all"
+        >
+          {f.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default ReportExport;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { DomainId, Session } from '../types';
+import { listSessions, deleteSession } from '../services/sessionStore';
+import { sessionCaptureSet } from '../services/captureSet';
+import { getDomain } from '../services/domains';
+import ReportExport from './ReportExport';
+import AuditLogView from './AuditLogView';
+
+interface SessionHistoryProps {
+  onOpen: (session: Session) => void;
+}
+
+const SEVERITY_STYLES: Record<string, string> = {
+  LOW: 'bg-emerald-50 text-emerald-600',
+  MEDIUM: 'bg-amber-50 text-amber-600',
+  HIGH: 'bg-rose-50 text-rose-600'
+};
+
+const STATUS_LABELS: Record<Session['status'], string> = {
+  IN_PROGRESS: 'In Progress',
+  COMPLETED: 'Completed',
+  ESCALATED: 'Escalated',
+  ABANDONED: 'Abandoned'
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ onOpen }) => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [modeFilter, setModeFilter] = useState<DomainId | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [auditSession, setAuditSession] = useState<Session | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Only analyzed sessions carry a step list worth re-running
+    listSessions()
+      .then(all => setSessions(all.filter(s => s.analysis)))
+      .catch(err => console.warn("History lookup failed:", err));
+  }, []);
+
+  const toggleExpanded = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    setExpandedId(prev => prev === id ? null : id);
+  };
+
+  // The audit trail is stored inside the session record, so it goes with it
+  const handleDelete = async (e: React.MouseEvent, session: Session) => {
+    e.stopPropagation();
+    if (!window.confirm(`Delete "${session.analysis!.category}"? Its photos, steps and audit trail are removed permanently. Export a report first to keep a record.`)) return;
+    setDeleteError(null);
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      setDeleteError(`Could not delete the session: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  const modes: DomainId[] = Array.from(new Set(sessions.map(s => s.mode)));
+  const visible = modeFilter ? sessions.filter(s => s.mode === modeFilter) : sessions;
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-4 mt-8 mb-4">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest whitespace-nowrap">Procedure Library</span>
+        <div className="h-px flex-1 bg-slate-200" />
+      </div>
+
+      {modes.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-3 -mx-1 px-1">
+          <button
+            onClick={() => setModeFilter(null)}
+            className={`shrink-0 px-4 py-2 rounded-full text-[11px] font-black uppercase tracking-wider ${!modeFilter ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+          >
+            All
+          </button>
+          {modes.map(m => (
+            <button
+              key={m}
+              onClick={() => setModeFilter(m)}
+              className={`shrink-0 px-4 py-2 rounded-full text-[11px] font-black uppercase tracking-wider ${modeFilter === m ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+            >
+              {getDomain(m).name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {deleteError && <p className="text-[12px] font-bold text-rose-500 mb-3">{deleteError}</p>}
+
+      <div className="space-y-3">
+        {visible.map(s => (
+          <div key={s.id} className="bg-white border border-slate-100 rounded-[24px] shadow-sm overflow-hidden">
+            <div
+              onClick={() => onOpen(s)}
+              className="w-full p-3 flex gap-4 items-center text-left active:scale-[0.98] transition-all cursor-pointer"
+            >
+              <div className="flex -space-x-4 shrink-0">
+                {sessionCaptureSet(s).slice(0, 2).map(capture => (
+                  <img key={capture.id} src={`data:image/jpeg;base64,${capture.data}`} className="w-14 h-14 rounded-2xl object-cover border-2 border-white shadow-sm" />
+                ))}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate">{getDomain(s.mode).name}</p>
+                <h4 className="font-black text-slate-900 leading-tight truncate">{s.analysis!.category}</h4>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase ${SEVERITY_STYLES[s.analysis!.severity]}`}>{s.analysis!.severity}</span>
+                  <span className="text-[11px] font-bold text-slate-400 truncate">{STATUS_LABELS[s.status]} · {new Date(s.createdAt).toLocaleDateString()}</span>
+                </div>
+              </div>
+              <button onClick={(e) => toggleExpanded(e, s.id)} className="p-2 text-slate-300 shrink-0">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+              </button>
+              <button onClick={(e) => handleDelete(e, s)} aria-label="Delete session and audit trail" className="p-2 -ml-2 text-slate-300 shrink-0">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+            {expandedId === s.id && (
+              <div className="px-4 pb-4 animate-fade-in">
+                <ReportExport session={s} />
+                <button onClick={() => setAuditSession(s)} className="mt-3 text-blue-600 text-[12px] font-black">View Audit Trail</button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {auditSession && <AuditLogView events={auditSession.auditLog || []} onClose={() => setAuditSession(null)} />}
+    </div>
+  );
+};
+
+export default SessionHistory;
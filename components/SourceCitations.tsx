@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { SourceCitation } from '../types';
+import { describeSource } from '../services/knowledgeBase';
+
+interface SourceCitationsProps {
+  citations: SourceCitation[];
+  className?: string;
+}
+
+// Each citation expands to the quoted passage so the user can check the answer against their manual
+const SourceCitations: React.FC<SourceCitationsProps> = ({ citations, className = '' }) => {
+  const [openIdx, setOpenIdx] = useState<number | null>(null);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {citations.map((c, i) => (
+        <div key={i}>
+          <button
+            onClick={() => setOpenIdx(openIdx === i ? null : i)}
+            className="flex items-center gap-2 text-left text-[12px] font-black text-indigo-600"
+          >
+            <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+            <span className="min-w-0 truncate">{describeSource(c)}</span>
+          </button>
+          {openIdx === i && (
+            <p className="mt-2 bg-indigo-50/70 border border-indigo-100 rounded-2xl p-3 text-[12px] font-bold text-slate-600 leading-relaxed select-text">{c.excerpt}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SourceCitations;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { StepDetail } from '../types';
+
+interface StepDetailsProps {
+  details: StepDetail[];
+}
+
+const StepDetails: React.FC<StepDetailsProps> = ({ details }) => (
+  <div className="space-y-6 mb-8">
+    {details.map(detail => (
+      <div key={detail.key}>
+        <h5 className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-3">{detail.label}</h5>
+        {Array.isArray(detail.value) ? (
+          <div className="bg-slate-50 border border-slate-100 rounded-2xl divide-y divide-slate-100">
+            {detail.value.map((item, i) => (
+              <p key={i} className="px-5 py-3 text-[14px] text-slate-800 font-bold leading-relaxed select-text">{item}</p>
+            ))}
+          </div>
+        ) : detail.type === 'code' ? (
+          <pre className="bg-slate-900 text-slate-100 rounded-2xl p-4 text-[12px] leading-relaxed font-mono overflow-x-auto select-text">{detail.value}</pre>
+        ) : (
+          <p className="text-[14px] text-slate-700 font-bold leading-relaxed select-text">{detail.value}</p>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default StepDetails;
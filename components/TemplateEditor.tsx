@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { AROverlayType, AR_OVERLAY_TYPES, GuidanceStep, Material, ProcedureTemplate } from '../types';
+import { createBlankStep, placeholderNames } from '../services/procedureTemplates';
+import { validateTemplate } from '../services/templateFormat';
+import { getDomains } from '../services/domains';
+
+interface TemplateEditorProps {
+  template: ProcedureTemplate;
+  onSave: (template: ProcedureTemplate) => void;
+  onClose: () => void;
+}
+
+const INPUT = 'w-full bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-[14px] text-slate-800 font-bold focus:outline-none focus:border-blue-300 select-text';
+const LABEL = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block';
+
+// Lists are edited one item per line; blank lines are dropped when the template is validated on save
+const toLines = (items?: string[]) => (items || []).join('\n');
+const fromLines = (text: string) => text.split('\n');
+
+// "name | alternative" per line, kept untrimmed while typing so the separator does not vanish
+const materialsToLines = (materials?: Material[]) =>
+  (materials || []).map(m => (m.alternative !== undefined ? `${m.name}|${m.alternative}` : m.name)).join('\n');
+const linesToMaterials = (text: string): Material[] =>
+  text.split('\n').map(line => {
+    const [name, ...alternative] = line.split('|');
+    return alternative.length ? { name, alternative: alternative.join('|') } : { name };
+  });
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProcedureTemplate>(template);
+  const [error, setError] = useState<string | null>(null);
+
+  const declared = new Set(draft.parameters.map(p => p.name));
+  const undeclared = placeholderNames(draft).filter(name => !declared.has(name));
+
+  const updateStep = (idx: number, patch: Partial<GuidanceStep>) => {
+    setDraft({ ...draft, steps: draft.steps.map((s, i) => (i === idx ? { ...s, ...patch } : s)) });
+  };
+
+  const moveStep = (idx: number, offset: number) => {
+    const steps = [...draft.steps];
+    const [step] = steps.splice(idx, 1);
+    steps.splice(idx + offset, 0, step);
+    setDraft({ ...draft, steps });
+  };
+
+  const addStep = () => {
+    setDraft({ ...draft, steps: [...draft.steps, createBlankStep(Math.max(0, ...draft.steps.map(s => s.id)) + 1)] });
+  };
+
+  const updateParameter = (idx: number, patch: Partial<ProcedureTemplate['parameters'][number]>) => {
+    setDraft({ ...draft, parameters: draft.parameters.map((p, i) => (i === idx ? { ...p, ...patch } : p)) });
+  };
+
+  const save = () => {
+    try {
+      onSave(validateTemplate(draft));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Template is invalid');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-t-[40px] shadow-2xl animate-slide-up h-[92vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-black text-slate-900">{template.name ? 'Edit Procedure' : 'New Procedure'}</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Version {draft.version}</p>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div>
+            <label className={LABEL}>Name</label>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Front brake pad change" className={INPUT} />
+          </div>
+          <div>
+            <label className={LABEL}>Domain</label>
+            <select value={draft.mode} onChange={(e) => setDraft({ ...draft, mode: e.target.value })} className={INPUT}>
+              {getDomains().map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={LABEL}>When It Applies</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Situations this procedure is the right answer for"
+              rows={3}
+              className={`${INPUT} resize-none`}
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Parameters</span>
+              <button onClick={() => setDraft({ ...draft, parameters: [...draft.parameters, { name: '', description: '' }] })} className="text-blue-600 text-[12px] font-black">Add</button>
+            </div>
+            <p className="text-[12px] text-slate-400 font-bold mb-3">Use {'{{name}}'} in step text; the AI fills the value from the photos.</p>
+            <div className="space-y-3">
+              {draft.parameters.map((p, i) => (
+                <div key={i} className="bg-slate-50 border border-slate-100 rounded-2xl p-3 space-y-2">
+                  <div className="flex gap-2">
+                    <input value={p.name} onChange={(e) => updateParameter(i, { name: e.target.value.replace(/[^\w-]/g, '') })} placeholder="name" className={INPUT} />
+                    <button onClick={() => setDraft({ ...draft, parameters: draft.parameters.filter((_, j) => j !== i) })} className="px-3 text-slate-300 shrink-0">
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                  </div>
+                  <input value={p.description} onChange={(e) => updateParameter(i, { description: e.target.value })} placeholder="What the AI should fill in" className={INPUT} />
+                  <input value={p.defaultValue || ''} onChange={(e) => updateParameter(i, { defaultValue: e.target.value })} placeholder="Default value (optional)" className={INPUT} />
+                </div>
+              ))}
+            </div>
+            {undeclared.length > 0 && (
+              <p className="mt-3 text-[12px] font-bold text-amber-600">Not declared: {undeclared.map(n => `{{${n}}}`).join(', ')}</p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <span className={LABEL}>Steps</span>
+            {draft.steps.map((step, i) => (
+              <div key={i} className="border border-slate-100 rounded-[24px] p-4 space-y-3 shadow-sm">
+                <div className="flex items-center gap-2">
+                  <span className="w-8 h-8 bg-slate-900 text-white rounded-xl flex items-center justify-center text-sm font-black shrink-0">{i + 1}</span>
+                  <input value={step.title} onChange={(e) => updateStep(i, { title: e.target.value })} placeholder="Title" className={INPUT} />
+                </div>
+                <textarea value={step.instruction} onChange={(e) => updateStep(i, { instruction: e.target.value })} placeholder="Instruction" rows={3} className={`${INPUT} resize-none`} />
+                <textarea value={step.audioPrompt} onChange={(e) => updateStep(i, { audioPrompt: e.target.value })} placeholder="Spoken prompt (defaults to the instruction)" rows={2} className={`${INPUT} resize-none`} />
+                <div className="flex gap-2">
+                  <input value={step.duration || ''} onChange={(e) => updateStep(i, { duration: e.target.value })} placeholder="Duration" className={INPUT} />
+                  <select value={step.arOverlayType} onChange={(e) => updateStep(i, { arOverlayType: e.target.value as AROverlayType })} className={INPUT}>
+                    {AR_OVERLAY_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                </div>
+                <textarea value={materialsToLines(step.materials)} onChange={(e) => updateStep(i, { materials: linesToMaterials(e.target.value) })} placeholder="Materials, one per line (name | alternative)" rows={2} className={`${INPUT} resize-none`} />
+                <textarea value={toLines(step.warnings)} onChange={(e) => updateStep(i, { warnings: fromLines(e.target.value) })} placeholder="Warnings, one per line" rows={2} className={`${INPUT} resize-none`} />
+                <textarea value={toLines(step.checkpoints)} onChange={(e) => updateStep(i, { checkpoints: fromLines(e.target.value) })} placeholder="Checkpoints, one per line" rows={2} className={`${INPUT} resize-none`} />
+                <div className="flex gap-4 justify-end">
+                  <button disabled={i === 0} onClick={() => moveStep(i, -1)} className="text-slate-400 text-[12px] font-black disabled:opacity-30">Up</button>
+                  <button disabled={i === draft.steps.length - 1} onClick={() => moveStep(i, 1)} className="text-slate-400 text-[12px] font-black disabled:opacity-30">Down</button>
+                  <button disabled={draft.steps.length === 1} onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, j) => j !== i) })} className="text-rose-500 text-[12px] font-black disabled:opacity-30">Delete</button>
+                </div>
+              </div>
+            ))}
+            <button onClick={addStep} className="w-full py-4 rounded-[22px] border-2 border-dashed border-slate-200 text-slate-400 text-[11px] font-black uppercase tracking-widest">Add Step</button>
+          </div>
+        </div>
+
+        <div className="p-6 pt-4 border-t border-slate-100">
+          {error && <p className="text-[12px] font-bold text-rose-500 mb-3">{error}</p>}
+          <button onClick={save} className="w-full bg-blue-600 text-white py-4 rounded-[22px] font-black shadow-lg shadow-blue-100">Save Procedure</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { AppMode, ProcedureTemplate } from '../types';
+import TemplateEditor from './TemplateEditor';
+import { getTemplates, saveTemplate, deleteTemplate, createBlankTemplate } from '../services/procedureTemplates';
+import { parseTemplateFile, exportTemplate } from '../services/templateFormat';
+import { groupByDomain } from '../services/domains';
+
+interface TemplateLibraryProps {
+  onClose: () => void;
+}
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ onClose }) => {
+  const [templates, setTemplates] = useState<ProcedureTemplate[]>(getTemplates);
+  const [editing, setEditing] = useState<ProcedureTemplate | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    const imported: string[] = [];
+    for (const file of files) {
+      try {
+        const template = parseTemplateFile(await file.text());
+        setTemplates(saveTemplate(template));
+        imported.push(template.name);
+      } catch (err) {
+        console.error(err);
+        setMessage({ text: `${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`, isError: true });
+        return;
+      }
+    }
+    if (imported.length) setMessage({ text: `Imported ${imported.join(', ')}`, isError: false });
+  };
+
+  const handleSave = (template: ProcedureTemplate) => {
+    setTemplates(saveTemplate(template));
+    setEditing(null);
+  };
+
+  const handleDelete = (template: ProcedureTemplate) => {
+    if (!window.confirm(`Delete "${template.name}"?`)) return;
+    setTemplates(deleteTemplate(template.id));
+  };
+
+  const byMode = groupByDomain<ProcedureTemplate>(templates);
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[110] flex items-end justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+        <div className="w-full max-w-md bg-white rounded-t-[40px] shadow-2xl animate-slide-up h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-100">
+            <div>
+              <h2 className="text-xl font-black text-slate-900 tracking-tight">Vetted Procedures</h2>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Followed exactly when they match</p>
+            </div>
+            <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {message && (
+              <p className={`text-[12px] font-bold ${message.isError ? 'text-rose-500' : 'text-emerald-600'}`}>{message.text}</p>
+            )}
+            {templates.length === 0 && (
+              <p className="text-slate-400 text-sm font-bold text-center py-8">No procedures yet. Create one or import a JSON or YAML file.</p>
+            )}
+            {byMode.map(group => (
+              <div key={group.domain.id}>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">{group.domain.name}</p>
+                <div className="space-y-3">
+                  {group.items.map(t => (
+                    <div key={t.id} className="bg-white border border-slate-100 rounded-[24px] shadow-sm p-4">
+                      <button onClick={() => setEditing(t)} className="w-full text-left">
+                        <h4 className="font-black text-slate-900 leading-tight">{t.name}</h4>
+                        <p className="text-[11px] font-bold text-slate-400 mt-1">
+                          v{t.version} · {t.steps.length} step{t.steps.length === 1 ? '' : 's'}{t.parameters.length ? ` · ${t.parameters.length} parameter${t.parameters.length === 1 ? '' : 's'}` : ''}
+                        </p>
+                        {t.description && <p className="text-[13px] font-bold text-slate-600 mt-2 line-clamp-2">{t.description}</p>}
+                      </button>
+                      <div className="flex gap-4 mt-3">
+                        <button onClick={() => exportTemplate(t, 'json')} className="text-blue-600 text-[12px] font-black">JSON</button>
+                        <button onClick={() => exportTemplate(t, 'yaml')} className="text-blue-600 text-[12px] font-black">YAML</button>
+                        <button onClick={() => handleDelete(t)} className="ml-auto text-slate-300 text-[12px] font-black">Delete</button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-6 pt-4 border-t border-slate-100 flex gap-3">
+            <input ref={fileInputRef} type="file" accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml" multiple className="hidden" onChange={handleImport} />
+            <button onClick={() => fileInputRef.current?.click()} className="flex-1 bg-slate-100 text-slate-800 py-4 rounded-[22px] font-black">Import</button>
+            <button onClick={() => setEditing(createBlankTemplate(AppMode.FIRST_AID))} className="flex-1 bg-blue-600 text-white py-4 rounded-[22px] font-black shadow-lg shadow-blue-100">New</button>
+          </div>
+        </div>
+      </div>
+
+      {editing && <TemplateEditor key={editing.id} template={editing} onSave={handleSave} onClose={() => setEditing(null)} />}
+    </>
+  );
+};
+
+export default TemplateLibrary;
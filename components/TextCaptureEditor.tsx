@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { TextCapture } from '../types';
+import { TEXT_CAPTURE_KINDS } from '../services/captureSet';
+
+interface TextCaptureEditorProps {
+  capture: TextCapture;
+  // Captures not yet in the set have no Remove button
+  isNew: boolean;
+  onSave: (capture: TextCapture) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const TextCaptureEditor: React.FC<TextCaptureEditorProps> = ({ capture, isNew, onSave, onRemove, onClose }) => {
+  const [kind, setKind] = useState(capture.kind);
+  const [text, setText] = useState(capture.text);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-end justify-center bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-t-[40px] shadow-2xl animate-slide-up h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-black text-slate-900 tracking-tight">{isNew ? 'Paste Text' : 'Edit Pasted Text'}</h2>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Sent to the model as written</p>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col p-6 gap-4 min-h-0">
+          <div className="flex gap-2 overflow-x-auto pb-1 shrink-0">
+            {TEXT_CAPTURE_KINDS.map(k => (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={`shrink-0 px-3 py-1.5 rounded-full text-[11px] font-black ${kind === k ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+              >
+                {k}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Paste the stack trace, build log or terminal output..."
+            spellCheck={false}
+            className="flex-1 w-full bg-slate-900 text-slate-100 rounded-2xl p-4 text-[12px] leading-relaxed font-mono focus:outline-none resize-none select-text"
+          />
+        </div>
+
+        <div className="p-6 pt-4 border-t border-slate-100 flex gap-3">
+          {!isNew && <button onClick={() => onRemove(capture.id)} className="flex-1 bg-slate-100 text-rose-600 py-4 rounded-[22px] font-black">Remove</button>}
+          <button
+            disabled={!text.trim()}
+            onClick={() => onSave({ ...capture, kind, text })}
+            className="flex-1 bg-blue-600 text-white py-4 rounded-[22px] font-black shadow-lg shadow-blue-100 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextCaptureEditor;
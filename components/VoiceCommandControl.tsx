@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VoiceCommand } from '../types';
+import VoiceRecorder from './VoiceRecorder';
+import { transcribeAudio } from '../services/aiService';
+import {
+  ListeningMode,
+  VOICE_COMMAND_LABELS,
+  WAKE_WORD,
+  parseVoiceCommand,
+  stripWakeWord,
+  getListeningMode,
+  setListeningMode,
+  getSpeechRecognition,
+  SpeechRecognizer
+} from '../services/voiceCommands';
+
+const CONFIRMATION_MS = 2500;
+
+interface VoiceCommandControlProps {
+  onCommand: (command: VoiceCommand, transcript: string) => void;
+  disabled?: boolean;
+}
+
+const VoiceCommandControl: React.FC<VoiceCommandControlProps> = ({ onCommand, disabled }) => {
+  const Recognition = getSpeechRecognition();
+  const [mode, setMode] = useState<ListeningMode>(() => (Recognition ? getListeningMode() : 'PUSH_TO_TALK'));
+  const [isListening, setIsListening] = useState(false);
+  const [confirmation, setConfirmation] = useState<{ text: string; recognized: boolean } | null>(null);
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  useEffect(() => {
+    if (!confirmation) return;
+    const timer = window.setTimeout(() => setConfirmation(null), CONFIRMATION_MS);
+    return () => clearTimeout(timer);
+  }, [confirmation]);
+
+  const handleTranscript = (transcript: string) => {
+    const text = transcript.trim();
+    if (!text) return;
+    const command = parseVoiceCommand(text);
+    if (command) {
+      setConfirmation({ text: VOICE_COMMAND_LABELS[command], recognized: true });
+      onCommandRef.current(command, text);
+    } else {
+      setConfirmation({ text: `Not a command: "${text}"`, recognized: false });
+    }
+  };
+
+  // Wake-word mode keeps a continuous recognizer running and restarts it whenever the browser ends it
+  useEffect(() => {
+    if (mode !== 'WAKE_WORD' || disabled || !Recognition) return;
+    let active = true;
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.onresult = (e) => {
+      const result = e.results[e.results.length - 1];
+      if (!result.isFinal) return;
+      const afterWakeWord = stripWakeWord(result[0].transcript);
+      if (afterWakeWord !== null) handleTranscript(afterWakeWord);
+    };
+    recognition.onend = () => {
+      if (active) recognition.start();
+    };
+    recognition.onerror = (e) => {
+      // Permission problems will not fix themselves; stop rather than loop
+      if (e.error === 'not-allowed' || e.error === 'service-not-allowed') active = false;
+    };
+    recognition.start();
+    setIsListening(true);
+    return () => {
+      active = false;
+      recognition.stop();
+      setIsListening(false);
+    };
+  }, [mode, disabled]);
+
+  const startPushToTalk = () => {
+    if (disabled || !Recognition || recognitionRef.current) return;
+    const recognition = new Recognition();
+    recognition.interimResults = false;
+    recognition.onresult = (e) => handleTranscript(e.results[0][0].transcript);
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setIsListening(false);
+    };
+    recognitionRef.current = recognition;
+    recognition.start();
+    setIsListening(true);
+  };
+
+  const stopPushToTalk = () => {
+    recognitionRef.current?.stop();
+  };
+
+  // Without browser recognition, push-to-talk records audio and transcribes it through the AI provider
+  const handleRecorded = async (base64Audio: string, mimeType: string) => {
+    try {
+      handleTranscript(await transcribeAudio(base64Audio, mimeType));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const toggleMode = () => {
+    const next: ListeningMode = mode === 'WAKE_WORD' ? 'PUSH_TO_TALK' : 'WAKE_WORD';
+    setListeningMode(next);
+    setMode(next);
+  };
+
+  return (
+    <div className="relative flex gap-3 items-center">
+      {confirmation && (
+        <div className={`absolute bottom-full mb-3 left-0 right-0 px-4 py-3 rounded-2xl text-[13px] font-black shadow-lg animate-fade-in ${confirmation.recognized ? 'bg-slate-900 text-white' : 'bg-amber-50 text-amber-800 border border-amber-100'}`}>
+          {confirmation.recognized ? `Heard: ${confirmation.text}` : confirmation.text}
+        </div>
+      )}
+
+      {!Recognition ? (
+        <>
+          <VoiceRecorder compact onRecorded={handleRecorded} disabled={disabled} />
+          <p className="flex-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">Tap mic, say a command, tap again</p>
+        </>
+      ) : mode === 'PUSH_TO_TALK' ? (
+        <button
+          disabled={disabled}
+          onPointerDown={startPushToTalk}
+          onPointerUp={stopPushToTalk}
+          onPointerLeave={stopPushToTalk}
+          className={`flex-1 h-12 rounded-2xl flex items-center justify-center gap-2 text-[11px] font-black uppercase tracking-widest transition-all ${isListening ? 'bg-rose-500 text-white animate-pulse' : 'bg-slate-100 text-slate-600'} ${disabled ? 'opacity-50' : ''}`}
+        >
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd"></path></svg>
+          {isListening ? 'Listening...' : 'Hold to Talk'}
+        </button>
+      ) : (
+        <div className="flex-1 h-12 rounded-2xl bg-blue-50 border border-blue-100 flex items-center justify-center gap-2 text-[11px] font-black text-blue-600 uppercase tracking-widest">
+          {isListening && <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />}
+          Say "{WAKE_WORD}, next"
+        </div>
+      )}
+
+      {Recognition && (
+        <button
+          onClick={toggleMode}
+          className="h-12 px-3 rounded-2xl border border-slate-200 text-[10px] font-black text-slate-400 uppercase tracking-widest shrink-0"
+        >
+          {mode === 'WAKE_WORD' ? 'Wake Word' : 'Push'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VoiceCommandControl;
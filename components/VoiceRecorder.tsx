@@ -0,0 +1,109 @@
+import React, { useRef, useEffect, useState } from 'react';
+
+interface VoiceRecorderProps {
+  onRecorded: (base64: string, mimeType: string) => void;
+  disabled?: boolean;
+  compact?: boolean;
+}
+
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onRecorded, disabled, compact }) => {
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopTracks = () => {
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+  };
+
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+      stopTracks();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const startTime = Date.now();
+    const timer = window.setInterval(() => setElapsed(Math.floor((Date.now() - startTime) / 1000)), 250);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      const s = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+      const recorder = new MediaRecorder(s);
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+        stopTracks();
+        // Gemini rejects codec parameters such as "audio/webm;codecs=opus"
+        const mimeType = (recorder.mimeType || 'audio/webm').split(';')[0];
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        const reader = new FileReader();
+        reader.onloadend = () => {
+          const data = (reader.result as string).split(',')[1];
+          if (data) onRecorded(data, mimeType);
+        };
+        reader.readAsDataURL(blob);
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setElapsed(0);
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Microphone access denied", err);
+      setError("Microphone unavailable. You can type the description instead.");
+    }
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    setIsRecording(false);
+  };
+
+  if (compact) {
+    return (
+      <button
+        disabled={disabled}
+        onClick={isRecording ? stopRecording : startRecording}
+        title={error || (isRecording ? 'Stop recording' : 'Record')}
+        className={`w-12 h-12 rounded-2xl flex items-center justify-center shrink-0 transition-all ${isRecording ? 'bg-rose-500 text-white animate-pulse' : 'bg-slate-100 text-slate-600'} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {isRecording ? (
+          <div className="w-4 h-4 bg-white rounded" />
+        ) : (
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd"></path></svg>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center">
+      <button
+        disabled={disabled}
+        onClick={isRecording ? stopRecording : startRecording}
+        className={`w-24 h-24 rounded-full flex items-center justify-center shadow-xl active:scale-90 transition-all relative ${isRecording ? 'bg-rose-500 shadow-rose-100' : 'bg-blue-600 shadow-blue-100'} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {isRecording && <div className="absolute inset-0 rounded-full border-4 border-rose-300 animate-ping" />}
+        {isRecording ? (
+          <div className="w-8 h-8 bg-white rounded-lg" />
+        ) : (
+          <svg className="w-10 h-10 text-white" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd"></path></svg>
+        )}
+      </button>
+      <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest mt-4">
+        {isRecording ? `Recording ${elapsed}s · Tap to stop` : 'Tap to record'}
+      </p>
+      {error && <p className="text-rose-500 text-[13px] font-bold mt-2 text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default VoiceRecorder;
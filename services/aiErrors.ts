@@ -0,0 +1,84 @@
+export type AIErrorKind = 'QUOTA' | 'NETWORK' | 'SAFETY_BLOCKED' | 'PARSE' | 'UNKNOWN';
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+
+  constructor(kind: AIErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AIError';
+    this.kind = kind;
+  }
+}
+
+export const AI_ERROR_COPY: Record<AIErrorKind, { title: string; message: string }> = {
+  QUOTA: {
+    title: 'Service Busy',
+    message: 'The AI service is over its request limit. Wait a moment and try again.'
+  },
+  NETWORK: {
+    title: 'Connection Problem',
+    message: 'The AI service could not be reached. Check your connection and try again.'
+  },
+  SAFETY_BLOCKED: {
+    title: 'Request Blocked',
+    message: 'The AI service declined to analyze these images. Try different photos or describe the problem differently.'
+  },
+  PARSE: {
+    title: 'Unreadable Response',
+    message: 'The AI returned an answer that could not be used. Trying again usually helps.'
+  },
+  UNKNOWN: {
+    title: 'Something Went Wrong',
+    message: 'The request failed unexpectedly. Try again.'
+  }
+};
+
+// SDK errors carry the HTTP status as `status`; some fetch wrappers use `code`
+const errorStatus = (err: unknown): unknown => {
+  if (typeof err !== 'object' || err === null) return undefined;
+  if ('status' in err && err.status != null) return err.status;
+  return 'code' in err ? err.code : undefined;
+};
+
+// Sorts SDK, fetch and HTTP failures into the kinds the UI and retry policy understand
+export const toAIError = (err: unknown): AIError => {
+  if (err instanceof AIError) return err;
+  const status = errorStatus(err);
+  const message = err instanceof Error ? err.message : String(err);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AIError('QUOTA', message, err);
+  }
+  if (
+    (typeof navigator !== 'undefined' && !navigator.onLine) ||
+    (typeof status === 'number' && status >= 500) ||
+    /failed to fetch|network|timeout|UNAVAILABLE/i.test(message)
+  ) {
+    return new AIError('NETWORK', message, err);
+  }
+  if (/SAFETY|blocked/i.test(message)) return new AIError('SAFETY_BLOCKED', message, err);
+  return new AIError('UNKNOWN', message, err);
+};
+
+export const describeAIError = (err: unknown): string => AI_ERROR_COPY[toAIError(err).kind].message;
+
+const RETRYABLE: AIErrorKind[] = ['QUOTA', 'NETWORK', 'PARSE'];
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 800;
+// Quota windows reset slowly; hammering them only extends the lockout
+const QUOTA_DELAY_FACTOR = 4;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retries transient failures with exponential backoff and jitter; everything else surfaces immediately
+export const withRetry = async <T>(op: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await op();
+    } catch (err) {
+      const error = toAIError(err);
+      if (attempt >= MAX_RETRIES || !RETRYABLE.includes(error.kind)) throw error;
+      const base = BASE_DELAY_MS * 2 ** attempt * (error.kind === 'QUOTA' ? QUOTA_DELAY_FACTOR : 1);
+      await sleep(base + Math.random() * BASE_DELAY_MS);
+    }
+  }
+};
@@ -0,0 +1,75 @@
+import { DomainId, AnalysisResult, AIProvider, VerificationResult, ChatMessage, FollowUpContext, FollowUpReply, FailedAttempt, RecoveryPlan, GuidanceStep, LiveFrame, LiveObservation, LabeledImage, EvidenceRequest, ProcedureTemplate, KnowledgePassage, ModeProfile, VerificationStrictness, TextCapture } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { withRetry } from "./aiErrors";
+
+const PROVIDERS: Record<string, AIProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider
+};
+
+const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+// Selected at build time through the AI_PROVIDER env variable (see vite.config.ts)
+export const getProvider = (): AIProvider => {
+  const id = process.env.AI_PROVIDER || DEFAULT_PROVIDER_ID;
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    console.warn(`Unknown AI provider "${id}", falling back to ${DEFAULT_PROVIDER_ID}`);
+    return PROVIDERS[DEFAULT_PROVIDER_ID];
+  }
+  return provider;
+};
+
+// Transient failures are retried here; live observation and speech have their own fallbacks and are not
+export const analyzeSituation = (
+  mode: DomainId,
+  images: LabeledImage[],
+  voiceText?: string,
+  templates?: ProcedureTemplate[],
+  references?: KnowledgePassage[],
+  profile?: ModeProfile,
+  textCaptures?: TextCapture[]
+): Promise<AnalysisResult> => withRetry(() => getProvider().analyzeSituation(mode, images, voiceText, templates, references, profile, textCaptures));
+
+export const requestEvidence = (
+  mode: DomainId,
+  analysis: AnalysisResult,
+  images: LabeledImage[]
+): Promise<EvidenceRequest[]> => withRetry(() => getProvider().requestEvidence(mode, analysis, images));
+
+export const verifyStep = (
+  instruction: string,
+  base64Image: string,
+  references?: KnowledgePassage[],
+  strictness?: VerificationStrictness
+): Promise<VerificationResult> => withRetry(() => getProvider().verifyStep(instruction, base64Image, references, strictness));
+
+export const verifyOutput = (
+  instruction: string,
+  output: string,
+  references?: KnowledgePassage[],
+  strictness?: VerificationStrictness
+): Promise<VerificationResult> => withRetry(() => getProvider().verifyOutput(instruction, output, references, strictness));
+
+export const transcribeAudio = (
+  base64Audio: string,
+  mimeType: string
+): Promise<string> => withRetry(() => getProvider().transcribeAudio(base64Audio, mimeType));
+
+export const askFollowUp = (
+  context: FollowUpContext,
+  history: ChatMessage[],
+  message: ChatMessage
+): Promise<FollowUpReply> => withRetry(() => getProvider().askFollowUp(context, history, message));
+
+export const planRecovery = (
+  context: FollowUpContext,
+  attempts: FailedAttempt[]
+): Promise<RecoveryPlan> => withRetry(() => getProvider().planRecovery(context, attempts));
+
+export const observeStep = (
+  step: GuidanceStep,
+  frames: LiveFrame[],
+  elapsedMs: number
+): Promise<LiveObservation> => getProvider().observeStep(step, frames, elapsedMs);
@@ -0,0 +1,54 @@
+import { SpeechAudio } from "../types";
+
+// Kept apart from the session database so clearing cached speech never touches saved procedures
+const DB_NAME = 'masterEverythingAudio';
+const DB_VERSION = 1;
+const SPEECH_STORE = 'speech';
+
+interface CachedSpeech extends SpeechAudio {
+  key: string;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SPEECH_STORE)) {
+          db.createObjectStore(SPEECH_STORE, { keyPath: 'key' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = op(db.transaction(SPEECH_STORE, mode).objectStore(SPEECH_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+export const speechCacheKey = (providerId: string, voice: string, text: string) => `${providerId}/${voice}/${text}`;
+
+export const getCachedSpeech = async (key: string): Promise<SpeechAudio | null> => {
+  const entry = await runRequest('readonly', store => store.get(key) as IDBRequest<CachedSpeech | undefined>);
+  return entry ? { data: entry.data, sampleRate: entry.sampleRate } : null;
+};
+
+export const putCachedSpeech = async (key: string, audio: SpeechAudio): Promise<void> => {
+  const entry: CachedSpeech = { key, data: audio.data, sampleRate: audio.sampleRate, createdAt: Date.now() };
+  await runRequest('readwrite', store => store.put(entry));
+};
@@ -0,0 +1,203 @@
+import { SpeechAudio } from "../types";
+import { getProvider } from "./aiService";
+import { speechCacheKey, getCachedSpeech, putCachedSpeech } from "./audioCache";
+
+export type PlaybackStatus = 'IDLE' | 'LOADING' | 'PLAYING' | 'PAUSED';
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  text: string | null;
+  rate: number;
+}
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+
+const RATE_STORAGE_KEY = 'masterEverything.playbackRate';
+
+const readRate = (): number => {
+  const rate = Number(localStorage.getItem(RATE_STORAGE_KEY));
+  return PLAYBACK_RATES.includes(rate) ? rate : 1;
+};
+
+let audioCtx: AudioContext | null = null;
+let queue: string[] = [];
+// Bumped on every interruption; a drain loop from an older generation exits at its next await
+let generation = 0;
+let drainingGeneration = -1;
+let stopCurrent: (() => void) | null = null;
+let currentSource: AudioBufferSourceNode | null = null;
+let state: PlaybackState = { status: 'IDLE', text: null, rate: readRate() };
+const listeners = new Set<(state: PlaybackState) => void>();
+
+const setState = (patch: Partial<PlaybackState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener(state));
+};
+
+const getContext = (): AudioContext => {
+  if (!audioCtx) audioCtx = new (window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext!)();
+  return audioCtx;
+};
+
+// Gemini TTS returns raw 16-bit little-endian mono PCM, which decodeAudioData cannot read
+const toAudioBuffer = (ctx: AudioContext, audio: SpeechAudio): AudioBuffer => {
+  const binary = atob(audio.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  const samples = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+  const buffer = ctx.createBuffer(1, samples.length, audio.sampleRate);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) channel[i] = samples[i] / 32768;
+  return buffer;
+};
+
+// Loads already started (or finished) this page session, so a prefetch and a playback never synthesize twice
+const loads = new Map<string, Promise<SpeechAudio | null>>();
+
+const fetchSpeech = async (key: string, text: string): Promise<SpeechAudio | null> => {
+  const cached = await getCachedSpeech(key).catch(() => null);
+  if (cached) return cached;
+  if (!navigator.onLine) return null;
+  const audio = await getProvider().synthesizeSpeech(text);
+  if (audio) putCachedSpeech(key, audio).catch(err => console.warn("Speech cache write failed:", err));
+  return audio;
+};
+
+const loadSpeech = (text: string): Promise<SpeechAudio | null> => {
+  const provider = getProvider();
+  const key = speechCacheKey(provider.id, provider.speechVoice, text);
+  let load = loads.get(key);
+  if (!load) {
+    load = fetchSpeech(key, text);
+    loads.set(key, load);
+    // Failures are not remembered so the next attempt can try the network again
+    load.then(audio => { if (!audio) loads.delete(key); }, () => loads.delete(key));
+  }
+  return load;
+};
+
+const playBuffer = async (audio: SpeechAudio): Promise<void> => {
+  const ctx = getContext();
+  if (ctx.state === 'suspended') await ctx.resume();
+  return new Promise(resolve => {
+    const source = ctx.createBufferSource();
+    source.buffer = toAudioBuffer(ctx, audio);
+    source.playbackRate.value = state.rate;
+    source.connect(ctx.destination);
+    source.onended = () => resolve();
+    currentSource = source;
+    stopCurrent = () => {
+      source.onended = null;
+      source.stop();
+      resolve();
+    };
+    source.start();
+  });
+};
+
+const speakWithBrowser = (text: string): Promise<void> =>
+  new Promise(resolve => {
+    if (!window.speechSynthesis) return resolve();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = state.rate;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    stopCurrent = () => {
+      window.speechSynthesis.cancel();
+      resolve();
+    };
+    window.speechSynthesis.speak(utterance);
+  });
+
+const drain = async (gen: number) => {
+  drainingGeneration = gen;
+  while (gen === generation && queue.length) {
+    const text = queue.shift()!;
+    setState({ status: 'LOADING', text });
+    const audio = await loadSpeech(text).catch(err => {
+      console.warn("Audio generation failed:", err);
+      return null;
+    });
+    if (gen !== generation) return;
+    setState({ status: 'PLAYING' });
+    // No TTS audio (offline, failure or a voiceless provider) falls back to the browser voice
+    await (audio ? playBuffer(audio) : speakWithBrowser(text));
+    if (gen !== generation) return;
+    stopCurrent = null;
+    currentSource = null;
+  }
+  if (gen === generation) {
+    drainingGeneration = -1;
+    setState({ status: 'IDLE' });
+  }
+};
+
+const interrupt = () => {
+  generation++;
+  queue = [];
+  stopCurrent?.();
+  stopCurrent = null;
+  currentSource = null;
+  window.speechSynthesis?.cancel();
+};
+
+// Plays text immediately, cutting off anything already playing or queued, unless queue is set
+export const speak = (text: string, options: { queue?: boolean } = {}) => {
+  if (!text) return;
+  if (!options.queue) interrupt();
+  queue.push(text);
+  if (drainingGeneration !== generation) drain(generation);
+};
+
+// Synthesizes all texts in parallel; resolves with the number that produced no audio
+export const prefetchSpeech = async (texts: string[], onProgress?: (done: number, total: number) => void): Promise<number> => {
+  const unique = [...new Set(texts.filter(Boolean))];
+  let done = 0;
+  let failed = 0;
+  onProgress?.(0, unique.length);
+  await Promise.all(unique.map(async text => {
+    const audio = await loadSpeech(text).catch(err => {
+      console.warn("Audio prefetch failed:", err);
+      return null;
+    });
+    if (!audio) failed++;
+    onProgress?.(++done, unique.length);
+  }));
+  return failed;
+};
+
+export const stopAudio = () => {
+  interrupt();
+  drainingGeneration = -1;
+  setState({ status: 'IDLE' });
+};
+
+export const pauseAudio = () => {
+  if (state.status !== 'PLAYING') return;
+  audioCtx?.suspend();
+  window.speechSynthesis?.pause();
+  setState({ status: 'PAUSED' });
+};
+
+export const resumeAudio = () => {
+  if (state.status !== 'PAUSED') return;
+  audioCtx?.resume();
+  window.speechSynthesis?.resume();
+  setState({ status: 'PLAYING' });
+};
+
+export const setPlaybackRate = (rate: number) => {
+  localStorage.setItem(RATE_STORAGE_KEY, String(rate));
+  // Browser speech picks up the new rate on its next utterance
+  if (currentSource) currentSource.playbackRate.value = rate;
+  setState({ rate });
+};
+
+export const getPlaybackState = (): PlaybackState => state;
+
+export const subscribePlayback = (listener: (state: PlaybackState) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,35 @@
+import { AuditEvent, AuditEventType } from "../types";
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  SESSION_STARTED: 'Session started',
+  SESSION_RESUMED: 'Session resumed',
+  ANALYSIS_COMPLETED: 'Analysis completed',
+  STEP_STARTED: 'Step started',
+  STEP_FINISHED: 'Step finished',
+  VERIFICATION_ATTEMPT: 'Verification attempt',
+  VERIFICATION_UNAVAILABLE: 'Verification unavailable',
+  VERIFICATION_RETRY: 'Verification retried',
+  MANUAL_OVERRIDE: 'Manual override',
+  PLAN_REVISED: 'Plan revised',
+  RECOVERY_PLANNED: 'Recovery plan',
+  VOICE_COMMAND: 'Voice command',
+  EVIDENCE_REQUESTED: 'Evidence requested',
+  ESCALATION: 'Escalated',
+  SESSION_COMPLETED: 'Session completed'
+};
+
+export const createAuditEvent = (type: AuditEventType, fields: Omit<AuditEvent, 'at' | 'type'> = {}): AuditEvent =>
+  Object.freeze({ at: Date.now(), type, ...fields });
+
+// Entries are never edited or removed, only appended
+export const appendAuditEvent = (log: readonly AuditEvent[], event: AuditEvent): AuditEvent[] => [...log, event];
+
+export const describeAuditEvent = (event: AuditEvent): string => {
+  const parts = [AUDIT_EVENT_LABELS[event.type]];
+  if (event.stepId !== undefined) parts.push(`step ${event.stepId}`);
+  if (event.success !== undefined) parts.push(event.success ? 'passed' : 'failed');
+  return parts.join(' · ');
+};
+
+export const formatAuditTime = (at: number) =>
+  new Date(at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
@@ -0,0 +1,77 @@
+import { CaptureImage, LabeledImage, Session, TargetRegion, TextCapture } from "../types";
+import { burnInAnnotation } from "./imageUtils";
+
+export const OVERVIEW_ROLE = 'Overview';
+export const CLOSE_UP_ROLE = 'Close-up';
+
+export const CAPTURE_ROLES = [
+  OVERVIEW_ROLE,
+  CLOSE_UP_ROLE,
+  'Label / part number',
+  'Other side',
+  'Connection',
+  'Surroundings',
+  'Other'
+];
+
+export const CAPTURE_ROLE_HINTS: Record<string, string> = {
+  [OVERVIEW_ROLE]: 'Wide angle view of the device/system',
+  [CLOSE_UP_ROLE]: 'High detail of specific component',
+  'Label / part number': 'Fill the frame with the label so the text is legible',
+  'Other side': 'The back or underside of the same part',
+  'Connection': 'Where cables, hoses or fasteners join',
+  'Surroundings': 'What is around the problem area'
+};
+
+export const createCapture = (role: string, data: string): CaptureImage => ({ id: crypto.randomUUID(), role, data });
+
+export const TEXT_CAPTURE_KINDS = ['Stack trace', 'Error log', 'Terminal output', 'Source code', 'Config'];
+
+export const createTextCapture = (kind: string, text: string): TextCapture => ({ id: crypto.randomUUID(), kind, text });
+
+// Build logs run to megabytes; the error is almost always at the end, so long pastes keep their tail
+const MAX_PASTED_CHARS = 12000;
+
+export const clipPastedText = (text: string): string =>
+  text.length <= MAX_PASTED_CHARS
+    ? text
+    : `[${text.length - MAX_PASTED_CHARS} earlier characters omitted]\n${text.slice(-MAX_PASTED_CHARS)}`;
+
+// Overview then close-up is enough for most problems; anything beyond that is the user's choice
+export const nextSuggestedRole = (captures: CaptureImage[]): string | null => {
+  const roles = captures.map(c => c.role);
+  if (!roles.includes(OVERVIEW_ROLE)) return OVERVIEW_ROLE;
+  if (!roles.includes(CLOSE_UP_ROLE)) return CLOSE_UP_ROLE;
+  return null;
+};
+
+// Sessions stored before capture sets held a fixed wide/detail pair plus evidence photos
+export const sessionCaptureSet = (session: Session): CaptureImage[] => {
+  if (session.captureSet) return session.captureSet;
+  const legacy: CaptureImage[] = [];
+  if (session.wideImage) legacy.push({ id: `${session.id}-wide`, role: OVERVIEW_ROLE, data: session.wideImage });
+  if (session.macroImage) legacy.push({ id: `${session.id}-macro`, role: CLOSE_UP_ROLE, data: session.macroImage });
+  (session.evidenceImages || []).forEach((img, i) => legacy.push({ id: `${session.id}-evidence-${i}`, ...img }));
+  return legacy;
+};
+
+export const describeCapture = (capture: CaptureImage): string =>
+  capture.caption ? `${capture.role}: ${capture.caption}` : capture.role;
+
+// What the model receives: the user's mark drawn into the pixels and the caption folded into the role
+export const toModelImages = (captures: CaptureImage[]): Promise<LabeledImage[]> =>
+  Promise.all(captures.map(async capture => ({
+    role: capture.annotation
+      ? `${describeCapture(capture)} (the user marked the area of interest in red)`
+      : describeCapture(capture),
+    data: capture.annotation
+      ? await burnInAnnotation(capture.data, capture.annotation).catch(() => capture.data)
+      : capture.data
+  })));
+
+// The photo a step's target region was located in, so the AR tracker matches against the right image
+export const referenceImageFor = (captures: CaptureImage[], region?: TargetRegion): string | null => {
+  const numbered = region?.imageNumber ? captures[region.imageNumber - 1] : undefined;
+  const fallback = captures.find(c => c.role === CLOSE_UP_ROLE) || captures[captures.length - 1];
+  return (numbered || fallback)?.data || null;
+};
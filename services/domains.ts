@@ -0,0 +1,166 @@
+import { AppMode, Domain, DomainId, DOMAIN_COLORS, DOMAIN_ICONS, Session } from "../types";
+
+const DOMAINS_STORAGE_KEY = 'masterEverything.customDomains';
+
+const CUSTOM_ID_PREFIX = 'custom-';
+
+export const BUILT_IN_DOMAINS: Domain[] = [
+  {
+    id: AppMode.ROBOTICS,
+    name: 'Robotics & Electronics',
+    icon: 'bolt',
+    color: 'indigo',
+    persona: 'Act as an expert robotics and electronics technician. Identify boards, connectors and components by their markings, and isolate power before any hands-on step.',
+    baseMode: AppMode.ROBOTICS,
+    builtIn: true
+  },
+  {
+    id: AppMode.MECHANICAL,
+    name: 'Auto & Mechanical',
+    icon: 'gear',
+    color: 'slate',
+    persona: 'Act as an expert automotive and mechanical technician. Name parts as the service manual would and secure the machine or vehicle before any hands-on step.',
+    baseMode: AppMode.MECHANICAL,
+    builtIn: true
+  },
+  {
+    id: AppMode.CODING,
+    name: 'Software Engineering',
+    icon: 'code',
+    color: 'blue',
+    persona: 'Act as an expert software engineer pairing with the user. Read code and error messages exactly as shown and prefer the smallest change that fixes the root cause.',
+    baseMode: AppMode.CODING,
+    builtIn: true
+  },
+  {
+    id: AppMode.TRADES,
+    name: 'Workshop & Trades',
+    icon: 'hammer',
+    color: 'amber',
+    persona: 'Act as an expert tradesperson and workshop instructor. Follow common building and electrical codes and make the work area safe before any hands-on step.',
+    baseMode: AppMode.TRADES,
+    builtIn: true
+  },
+  {
+    id: AppMode.GENERAL,
+    name: 'Technical Advisor',
+    icon: 'sparkles',
+    color: 'teal',
+    persona: 'Act as an expert technical advisor. Work out what the equipment is before advising, and prefer reversible actions.',
+    baseMode: AppMode.GENERAL,
+    builtIn: true
+  },
+  {
+    id: AppMode.FIRST_AID,
+    name: 'Rapid First Aid',
+    icon: 'heart',
+    color: 'rose',
+    persona: 'Act as a calm first aid instructor talking a bystander through care. Only give actions that are safe without medical training; never suggest medication doses or invasive procedures.',
+    baseMode: AppMode.FIRST_AID,
+    builtIn: true
+  }
+];
+
+const BASE_MODES = Object.values(AppMode);
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+// Stored domains are user-edited; anything malformed falls back to safe defaults instead of failing the home screen
+const normalizeDomain = (value: unknown): Domain | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const stored: Partial<Record<keyof Domain, unknown>> = value;
+  if (typeof stored.id !== 'string' || !stored.id.startsWith(CUSTOM_ID_PREFIX) || typeof stored.name !== 'string') return null;
+  return {
+    id: stored.id,
+    name: stored.name,
+    icon: isOneOf(DOMAIN_ICONS, stored.icon) ? stored.icon : 'sparkles',
+    color: isOneOf(DOMAIN_COLORS, stored.color) ? stored.color : 'teal',
+    persona: typeof stored.persona === 'string' ? stored.persona : '',
+    baseMode: isOneOf(BASE_MODES, stored.baseMode) ? stored.baseMode : AppMode.GENERAL
+  };
+};
+
+export const getCustomDomains = (): Domain[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DOMAINS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(normalizeDomain).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const getDomains = (): Domain[] => [...BUILT_IN_DOMAINS, ...getCustomDomains()];
+
+// Sessions and documents can outlive a deleted custom domain; they keep working under the given
+// base mode's guidance, or general guidance when the base mode was never recorded
+export const getDomain = (id: DomainId, fallbackBaseMode: AppMode = AppMode.GENERAL): Domain => {
+  const domain = getDomains().find(d => d.id === id);
+  if (domain) return domain;
+  const base = BUILT_IN_DOMAINS.find(d => d.id === fallbackBaseMode) || BUILT_IN_DOMAINS.find(d => d.id === AppMode.GENERAL)!;
+  return { ...base, id, name: 'Removed Domain', builtIn: false };
+};
+
+export const getSessionDomain = (session: Session): Domain => getDomain(session.mode, session.baseMode);
+
+export const isCustomDomain = (id: DomainId): boolean => id.startsWith(CUSTOM_ID_PREFIX);
+
+// Throws with a message fit for the editor
+export const validateDomain = (domain: Domain): Domain => {
+  const name = domain.name.trim();
+  const persona = domain.persona.trim();
+  if (!name) throw new Error('Give the domain a name');
+  if (getDomains().some(d => d.id !== domain.id && d.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`"${name}" already exists`);
+  }
+  if (!persona) throw new Error('Describe the expert the assistant should act as');
+  if (!BASE_MODES.includes(domain.baseMode)) throw new Error('Choose which safety rules apply');
+  return { ...domain, name, persona };
+};
+
+const saveCustomDomains = (domains: Domain[]) => {
+  localStorage.setItem(DOMAINS_STORAGE_KEY, JSON.stringify(domains));
+};
+
+export const saveDomain = (domain: Domain): Domain[] => {
+  if (!isCustomDomain(domain.id)) throw new Error('Built-in domains cannot be edited');
+  const saved = validateDomain(domain);
+  const existing = getCustomDomains();
+  const domains = existing.some(d => d.id === saved.id)
+    ? existing.map(d => (d.id === saved.id ? saved : d))
+    : [...existing, saved];
+  saveCustomDomains(domains);
+  return getDomains();
+};
+
+export const deleteDomain = (id: DomainId): Domain[] => {
+  saveCustomDomains(getCustomDomains().filter(d => d.id !== id));
+  return getDomains();
+};
+
+export const createBlankDomain = (): Domain => ({
+  id: `${CUSTOM_ID_PREFIX}${crypto.randomUUID()}`,
+  name: '',
+  icon: 'sparkles',
+  color: 'teal',
+  persona: '',
+  baseMode: AppMode.GENERAL
+});
+
+// Registry order first; items of a removed domain are grouped after the rest instead of disappearing
+export const groupByDomain = <T extends { mode: DomainId }>(items: T[]): { domain: Domain; items: T[] }[] => {
+  const ids = getDomains().map(d => d.id);
+  const orphaned = [...new Set(items.map(i => i.mode))].filter(id => !ids.includes(id));
+  return [...ids, ...orphaned]
+    .map(id => ({ domain: getDomain(id), items: items.filter(i => i.mode === id) }))
+    .filter(group => group.items.length);
+};
+
+// Imported files name domains by label; built-in modes also accept their enum key, e.g. "CODING"
+export const findDomain = (value: string): Domain | null => {
+  const raw = value.trim();
+  const lower = raw.toLowerCase();
+  return getDomains().find(d => d.id.toLowerCase() === lower || d.name.toLowerCase() === lower)
+    || BUILT_IN_DOMAINS.find(d => d.id === (AppMode as Record<string, AppMode>)[raw.toUpperCase()])
+    || null;
+};
@@ -0,0 +1,87 @@
+import { EmergencyContact, EmergencyRegion } from "../types";
+
+const REGION_STORAGE_KEY = 'masterEverything.emergencyRegion';
+const CUSTOM_CONTACTS_STORAGE_KEY = 'masterEverything.customContacts';
+
+// Used when the locale maps to a region we have no entry for. 112 is routed to local
+// emergency services on all GSM networks and across the EU.
+export const FALLBACK_REGION = 'INTL';
+
+export const EMERGENCY_REGIONS: EmergencyRegion[] = [
+  { code: 'US', name: 'United States', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '911' }, { kind: 'poison', label: 'Poison Control', number: '1-800-222-1222' }] },
+  { code: 'CA', name: 'Canada', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '911' }, { kind: 'poison', label: 'Poison Centre', number: '1-844-764-7669' }] },
+  { code: 'MX', name: 'Mexico', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '911' }] },
+  { code: 'GB', name: 'United Kingdom', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '999' }, { kind: 'medical', label: 'NHS Non-Emergency', number: '111' }] },
+  { code: 'IE', name: 'Ireland', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '112' }, { kind: 'poison', label: 'Poisons Information', number: '01 809 2166' }] },
+  { code: 'DE', name: 'Germany', numbers: [{ kind: 'emergency', label: 'Ambulance & Fire', number: '112' }, { kind: 'police', label: 'Police', number: '110' }] },
+  { code: 'FR', name: 'France', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '112' }, { kind: 'medical', label: 'SAMU (Medical)', number: '15' }, { kind: 'poison', label: 'Poison Control (Paris)', number: '01 40 05 48 48' }] },
+  { code: 'ES', name: 'Spain', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '112' }, { kind: 'poison', label: 'Toxicology Service', number: '91 562 04 20' }] },
+  { code: 'IT', name: 'Italy', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '112' }, { kind: 'medical', label: 'Ambulance', number: '118' }] },
+  { code: 'NL', name: 'Netherlands', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '112' }] },
+  { code: 'AU', name: 'Australia', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '000' }, { kind: 'poison', label: 'Poisons Information', number: '13 11 26' }] },
+  { code: 'NZ', name: 'New Zealand', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '111' }, { kind: 'poison', label: 'National Poisons Centre', number: '0800 764 766' }] },
+  { code: 'IN', name: 'India', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '112' }, { kind: 'medical', label: 'Ambulance', number: '108' }] },
+  { code: 'JP', name: 'Japan', numbers: [{ kind: 'emergency', label: 'Ambulance & Fire', number: '119' }, { kind: 'police', label: 'Police', number: '110' }] },
+  { code: 'CN', name: 'China', numbers: [{ kind: 'emergency', label: 'Ambulance', number: '120' }, { kind: 'police', label: 'Police', number: '110' }, { kind: 'fire', label: 'Fire', number: '119' }] },
+  { code: 'BR', name: 'Brazil', numbers: [{ kind: 'emergency', label: 'Ambulance (SAMU)', number: '192' }, { kind: 'police', label: 'Police', number: '190' }, { kind: 'fire', label: 'Fire', number: '193' }] },
+  { code: 'ZA', name: 'South Africa', numbers: [{ kind: 'emergency', label: 'Emergency (Mobile)', number: '112' }, { kind: 'medical', label: 'Ambulance', number: '10177' }, { kind: 'police', label: 'Police', number: '10111' }] },
+  { code: FALLBACK_REGION, name: 'International (GSM)', numbers: [{ kind: 'emergency', label: 'Emergency Services', number: '112' }] }
+];
+
+const findRegion = (code: string) => EMERGENCY_REGIONS.find(r => r.code === code);
+
+const detectLocaleRegion = (): string | null => {
+  try {
+    const locale = new Intl.Locale(navigator.language).maximize();
+    return locale.region || null;
+  } catch {
+    return null;
+  }
+};
+
+export const getSelectedRegion = (): string | null => localStorage.getItem(REGION_STORAGE_KEY);
+
+export const setSelectedRegion = (code: string | null) => {
+  if (code) localStorage.setItem(REGION_STORAGE_KEY, code);
+  else localStorage.removeItem(REGION_STORAGE_KEY);
+};
+
+// A user-chosen region wins over the browser locale
+export const resolveRegion = (): EmergencyRegion => {
+  const chosen = getSelectedRegion();
+  if (chosen && findRegion(chosen)) return findRegion(chosen)!;
+  const detected = detectLocaleRegion();
+  return (detected && findRegion(detected)) || findRegion(FALLBACK_REGION)!;
+};
+
+export const getCustomContacts = (): EmergencyContact[] => {
+  try {
+    return JSON.parse(localStorage.getItem(CUSTOM_CONTACTS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveCustomContacts = (contacts: EmergencyContact[]) => {
+  localStorage.setItem(CUSTOM_CONTACTS_STORAGE_KEY, JSON.stringify(contacts));
+};
+
+export const addCustomContact = (label: string, number: string): EmergencyContact[] => {
+  const contacts = [...getCustomContacts(), { id: `custom-${Date.now()}`, kind: 'custom' as const, label, number }];
+  saveCustomContacts(contacts);
+  return contacts;
+};
+
+export const removeCustomContact = (id: string): EmergencyContact[] => {
+  const contacts = getCustomContacts().filter(c => c.id !== id);
+  saveCustomContacts(contacts);
+  return contacts;
+};
+
+export const getEmergencyContacts = (region: EmergencyRegion = resolveRegion()): EmergencyContact[] => [
+  ...region.numbers.map((n, i) => ({ ...n, id: `${region.code}-${i}` })),
+  ...getCustomContacts()
+];
+
+// Strips formatting so the number can be used in a tel: URI
+export const toTelHref = (number: string) => `tel:${number.replace(/[^\d+]/g, '')}`;
@@ -1,33 +1,231 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AppMode, AnalysisResult } from "../types";
+import { GoogleGenAI, Type, Part } from "@google/genai";
+import {
+  AppMode,
+  DomainId,
+  AnalysisResult,
+  AIProvider,
+  SpeechAudio,
+  VerificationResult,
+  ChatMessage,
+  FollowUpContext,
+  FollowUpReply,
+  FailedAttempt,
+  RecoveryPlan,
+  GuidanceStep,
+  LiveFrame,
+  LiveObservation,
+  LabeledImage,
+  EvidenceRequest,
+  ProcedureTemplate,
+  KnowledgePassage,
+  ModeProfile,
+  StepDetailField,
+  VerificationStrictness,
+  TextCapture,
+  AR_OVERLAY_TYPES,
+  CODE_BLOCK_KINDS
+} from "../types";
+import { AIError, toAIError } from "./aiErrors";
+import { describeSource } from "./knowledgeBase";
+import { defaultProfileFor } from "./modeProfiles";
+import { getDomain } from "./domains";
+import { clipPastedText } from "./captureSet";
+import {
+  parseJson,
+  validateAnalysis,
+  validateVerification,
+  validateFollowUpReply,
+  validateRecoveryPlan,
+  validateLiveObservation,
+  validateEvidenceRequests
+} from "./responseValidation";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const MODEL_NAME = 'gemini-3-flash-preview';
+const TTS_MODEL_NAME = 'gemini-2.5-flash-preview-tts';
+const TTS_SAMPLE_RATE = 24000;
+const TTS_VOICE = 'Kore';
 
-export const analyzeSituation = async (
-  mode: AppMode, 
-  wideBase64: string, 
-  macroBase64: string,
-  voiceText?: string
+// Created lazily so the app can boot with another provider and no API key
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+// Every model call goes through here so failures surface as typed AIErrors
+const generate = async (params: Parameters<GoogleGenAI['models']['generateContent']>[0]) => {
+  let response;
+  try {
+    response = await getClient().models.generateContent(params);
+  } catch (err) {
+    throw toAIError(err);
+  }
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+    throw new AIError('SAFETY_BLOCKED', `Response blocked: ${blockReason || finishReason}`);
+  }
+  return response;
+};
+
+const labeledImageParts = (images: LabeledImage[]) =>
+  images.map((img, i) => ({
+    parts: [{ text: `Image ${i + 1}: ${img.role}` }, { inlineData: { data: img.data, mimeType: 'image/jpeg' } }]
+  }));
+
+// Passages are labeled [S1], [S2]... so answers can cite them back by id
+const referenceBlock = (references: KnowledgePassage[] = []) => references.length
+  ? `\n  Passages from the user's own manuals and documents, each labeled with its source id:
+${references.map((p, i) => `  [S${i + 1}] (${describeSource(p)}) ${p.text}`).join('\n')}
+  Where a passage applies, prefer it over general knowledge: use its exact values, part names and order, and cite it by id ('sourceIds', or 'sourceId' on a step taken from it). Never cite a passage you did not use.\n`
+  : '';
+
+const SOURCE_IDS_SCHEMA = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+// Pasted text goes in verbatim, headed by what the user said it is
+const textCaptureBlock = (captures: TextCapture[] = []) => captures.length
+  ? `\n  The user pasted the following text:
+${captures.map((c, i) => `  --- Pasted ${i + 1}: ${c.kind} ---\n${clipPastedText(c.text)}`).join('\n')}
+  --- End of pasted text ---\n`
+  : '';
+
+const isSoftwareDomain = (mode: DomainId) => getDomain(mode).baseMode === AppMode.CODING;
+
+const CODE_BLOCK_RULE = "Put code and commands in the step's 'codeBlocks', never in the instruction text: kind 'code' for a snippet to add (with its 'filename'), 'diff' for a change to existing code as a unified diff with -/+ lines, 'command' for one terminal command. Set 'language' (e.g. typescript, python, bash). Copy identifiers, paths and error text exactly.";
+
+const SCREEN_TEXT_RULE = "Transcribe all code, terminal output and error messages legible in the images verbatim into 'screenText', one entry per image with its 'imageNumber' and 'language'. Base the diagnosis on these transcripts and any pasted text, quoting exact file names, line numbers and messages.";
+
+const BASE_STEP_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.NUMBER },
+    title: { type: Type.STRING },
+    instruction: { type: Type.STRING },
+    duration: { type: Type.STRING },
+    materials: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          alternative: { type: Type.STRING }
+        }
+      }
+    },
+    warnings: { type: Type.ARRAY, items: { type: Type.STRING } },
+    checkpoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    audioPrompt: { type: Type.STRING },
+    arOverlayType: { type: Type.STRING, enum: [...AR_OVERLAY_TYPES] },
+    targetRegion: {
+      type: Type.OBJECT,
+      properties: {
+        label: { type: Type.STRING },
+        imageNumber: { type: Type.NUMBER },
+        box: {
+          type: Type.OBJECT,
+          properties: {
+            x: { type: Type.NUMBER },
+            y: { type: Type.NUMBER },
+            width: { type: Type.NUMBER },
+            height: { type: Type.NUMBER }
+          },
+          required: ['x', 'y', 'width', 'height']
+        }
+      },
+      required: ['label', 'box']
+    },
+    sourceId: { type: Type.STRING },
+    codeBlocks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: [...CODE_BLOCK_KINDS] },
+          content: { type: Type.STRING },
+          language: { type: Type.STRING },
+          filename: { type: Type.STRING }
+        },
+        required: ['kind', 'content']
+      }
+    }
+  },
+  required: ['id', 'title', 'instruction', 'audioPrompt', 'arOverlayType']
+};
+
+// The profile's extra fields are added to the step schema and its required fields made mandatory
+const stepSchema = (profile: ModeProfile) => ({
+  ...BASE_STEP_SCHEMA,
+  properties: {
+    ...BASE_STEP_SCHEMA.properties,
+    ...Object.fromEntries(profile.extraFields.map(f => [
+      f.key,
+      f.type === 'list' ? { type: Type.ARRAY, items: { type: Type.STRING }, description: f.description } : { type: Type.STRING, description: f.description }
+    ]))
+  },
+  required: [...BASE_STEP_SCHEMA.required, ...profile.requiredFields]
+});
+
+const REQUIRED_FIELD_RULES: Record<StepDetailField, string> = {
+  duration: "a 'duration'",
+  materials: "a 'materials' list",
+  warnings: "at least 1 'warning'",
+  checkpoints: "at least 2 'checkpoints'"
+};
+
+const STRICTNESS_RULES: Record<VerificationStrictness, string> = {
+  LENIENT: 'Pass the step if its goal is clearly achieved, even if the technique differs or minor details are out of frame.',
+  STANDARD: '',
+  STRICT: 'Be strict: pass only if the photo clearly shows the step done correctly and completely. If anything is ambiguous or out of frame, fail and say exactly what to show.'
+};
+
+// Step count, per-step fields and extra fields as numbered prompt rules
+const profileRules = (profile: ModeProfile): string[] => {
+  const { minSteps, maxSteps, requiredFields, extraFields } = profile;
+  return [
+    `List ${minSteps === maxSteps ? `exactly ${minSteps}` : `${minSteps}-${maxSteps}`} detailed technical steps; use as many as the job needs, not more.`,
+    ...(requiredFields.length ? [`Each step MUST have ${requiredFields.map(f => REQUIRED_FIELD_RULES[f]).join(', ')}.`] : []),
+    ...(requiredFields.includes('materials') ? [] : ["Include a 'materials' list for the first step."]),
+    ...(extraFields.length ? [`Where they apply, fill these step fields: ${extraFields.map(f => `'${f.key}' (${f.description})`).join('; ')}.`] : [])
+  ];
+};
+
+const analyzeSituation = async (
+  mode: DomainId,
+  images: LabeledImage[],
+  voiceText?: string,
+  templates: ProcedureTemplate[] = [],
+  references: KnowledgePassage[] = [],
+  profile: ModeProfile = defaultProfileFor(mode),
+  textCaptures: TextCapture[] = []
 ): Promise<AnalysisResult> => {
-  const prompt = `Act as an expert ${mode} assistant. Rapidly analyze these two images.
-  1. Identify the specific technical issue or state.
-  2. Severity: LOW, MEDIUM, or HIGH.
-  3. Reasoning: Concise visual identification of components or status.
-  4. List exactly 3-4 detailed technical steps.
-  5. Each step MUST have 1 'warning' and 2 'checkpoints'.
-  6. Include a 'materials' list for the first step.
-  
+  const software = isSoftwareDomain(mode);
+  const templateList = templates.map(t => ({
+    id: t.id,
+    name: t.name,
+    appliesTo: t.description,
+    parameters: t.parameters.map(p => ({ name: p.name, description: p.description }))
+  }));
+  const rules = [
+    'Identify the specific technical issue or state.',
+    'Severity: LOW, MEDIUM, or HIGH.',
+    'Reasoning: Concise visual identification of components or status.',
+    ...profileRules(profile),
+    `Pick each step's 'arOverlayType' from: ${AR_OVERLAY_TYPES.join(', ')}.`,
+    "When a step acts on a specific component visible in one of the images, add 'targetRegion' with a short label, the 'imageNumber' it appears in (prefer a close-up) and its bounding box in that image as x, y, width, height fractions (0-1) from the top-left.",
+    "'confidence' (0-1) is how sure you are of the diagnosis; list anything you could not determine from the images in 'uncertainties'.",
+    ...(software ? [...(images.length ? [SCREEN_TEXT_RULE] : []), CODE_BLOCK_RULE] : [])
+  ];
+  const subject = images.length ? `these ${images.length} images; each is preceded by its role` : 'the pasted text below';
+  const prompt = `${profile.systemPrompt} Rapidly analyze ${subject}.
+${rules.map((rule, i) => `  ${i + 1}. ${rule}`).join('\n')}
+  ${voiceText ? `\n  The user described the problem in their own words: "${voiceText}"\n  Use this description as context alongside the images.\n` : ''}${textCaptureBlock(textCaptures)}
+  ${templates.length ? `\n  Vetted procedures for this domain: ${JSON.stringify(templateList)}\n  If one clearly applies, set 'templateId' to its id and give a value for each of its parameters in 'templateParameters' from what you see; its steps are used instead of yours, so keep your own 'steps' to a single summary step.\n` : ''}${referenceBlock(references)}
   Speed is priority. Format as JSON.`;
 
-  const response = await ai.models.generateContent({
+  const response = await generate({
     model: MODEL_NAME,
-    contents: [
-      { parts: [{ text: prompt }] },
-      { parts: [{ inlineData: { data: wideBase64, mimeType: 'image/jpeg' } }] },
-      { parts: [{ inlineData: { data: macroBase64, mimeType: 'image/jpeg' } }] }
-    ],
+    contents: [{ parts: [{ text: prompt }] }, ...labeledImageParts(images)],
     config: {
       responseMimeType: "application/json",
       responseSchema: {
@@ -40,30 +238,31 @@ export const analyzeSituation = async (
           uncertainties: { type: Type.ARRAY, items: { type: Type.STRING } },
           isSafeToProceed: { type: Type.BOOLEAN },
           steps: {
+            type: Type.ARRAY,
+            items: stepSchema(profile),
+            // A matched template replaces the steps with a single summary, so the range only binds without templates
+            ...(templates.length ? {} : { minItems: String(profile.minSteps), maxItems: String(profile.maxSteps) })
+          },
+          sourceIds: SOURCE_IDS_SCHEMA,
+          screenText: {
             type: Type.ARRAY,
             items: {
               type: Type.OBJECT,
               properties: {
-                id: { type: Type.NUMBER },
-                title: { type: Type.STRING },
-                instruction: { type: Type.STRING },
-                duration: { type: Type.STRING },
-                materials: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      name: { type: Type.STRING },
-                      alternative: { type: Type.STRING }
-                    }
-                  }
-                },
-                warnings: { type: Type.ARRAY, items: { type: Type.STRING } },
-                checkpoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-                audioPrompt: { type: Type.STRING },
-                arOverlayType: { type: Type.STRING },
+                imageNumber: { type: Type.NUMBER },
+                text: { type: Type.STRING },
+                language: { type: Type.STRING }
               },
-              required: ['id', 'title', 'instruction', 'audioPrompt', 'arOverlayType']
+              required: ['imageNumber', 'text']
+            }
+          },
+          templateId: { type: Type.STRING },
+          templateParameters: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { name: { type: Type.STRING }, value: { type: Type.STRING } },
+              required: ['name', 'value']
             }
           }
         },
@@ -72,69 +271,298 @@ export const analyzeSituation = async (
     }
   });
 
-  try {
-    return JSON.parse(response.text || '{}') as AnalysisResult;
-  } catch (e) {
-    throw new Error("Failed to parse AI response");
-  }
+  return validateAnalysis(parseJson(response.text), templates, references, profile.extraFields, images.length);
+};
+
+const requestEvidence = async (
+  mode: DomainId,
+  analysis: AnalysisResult,
+  images: LabeledImage[]
+): Promise<EvidenceRequest[]> => {
+  const prompt = `You are an expert ${getDomain(mode).name} assistant. Your analysis of these images was not confident enough to guide a repair safely.
+  Analysis: ${JSON.stringify({ category: analysis.category, confidence: analysis.confidence, reasoning: analysis.reasoning, uncertainties: analysis.uncertainties })}
+  List 1-3 additional photos the user could take that would resolve the uncertainties, most useful first.
+  Each 'description' is a short camera instruction (e.g. "Photo of the part number label", "Side view of the connector").
+  Each 'reason' says in one sentence what it would settle.
+  Format as JSON.`;
+
+  const response = await generate({
+    model: MODEL_NAME,
+    contents: [{ parts: [{ text: prompt }] }, ...labeledImageParts(images)],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          requests: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                description: { type: Type.STRING },
+                reason: { type: Type.STRING }
+              },
+              required: ['description', 'reason']
+            }
+          }
+        },
+        required: ['requests']
+      }
+    }
+  });
+
+  return validateEvidenceRequests(parseJson(response.text));
 };
 
-export const verifyStep = async (
+const verifyStep = async (
   instruction: string,
-  base64Image: string
-): Promise<{ success: boolean; feedback: string }> => {
+  base64Image: string,
+  references: KnowledgePassage[] = [],
+  strictness: VerificationStrictness = 'STANDARD'
+): Promise<VerificationResult> => {
   const prompt = `Analyze if the user successfully completed this step: "${instruction}".
-  Look at the provided photo. Is the task done correctly?
+  Look at the provided photo. Is the task done correctly? ${STRICTNESS_RULES[strictness]}${referenceBlock(references)}
   Return JSON: { "success": boolean, "feedback": "Brief feedback or correction" }`;
 
-  const response = await ai.models.generateContent({
+  const response = await generate({
     model: MODEL_NAME,
     contents: [
       { parts: [{ text: prompt }] },
       { parts: [{ inlineData: { data: base64Image, mimeType: 'image/jpeg' } }] }
     ],
-    config: { responseMimeType: "application/json" }
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          success: { type: Type.BOOLEAN },
+          feedback: { type: Type.STRING },
+          sourceIds: SOURCE_IDS_SCHEMA
+        },
+        required: ['success', 'feedback']
+      }
+    }
   });
 
-  try {
-    return JSON.parse(response.text || '{}');
-  } catch (e) {
-    return { success: true, feedback: "Unable to verify, but proceeding safely." };
-  }
+  return validateVerification(parseJson(response.text), references);
 };
 
-export const playInstructionAudio = async (text: string) => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: ['AUDIO'],
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-        }
+const verifyOutput = async (
+  instruction: string,
+  output: string,
+  references: KnowledgePassage[] = [],
+  strictness: VerificationStrictness = 'STANDARD'
+): Promise<VerificationResult> => {
+  const prompt = `Analyze if the user successfully completed this step: "${instruction}".
+  Instead of a photo, the user pasted the output of running it:
+  --- Output ---
+${clipPastedText(output)}
+  --- End of output ---
+  Judge from exit messages, errors, warnings and test results whether the step achieved its goal. If the output shows a different error than before, say what it means. ${STRICTNESS_RULES[strictness]}${referenceBlock(references)}
+  Return JSON: { "success": boolean, "feedback": "Brief feedback or correction" }`;
+
+  const response = await generate({
+    model: MODEL_NAME,
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          success: { type: Type.BOOLEAN },
+          feedback: { type: Type.STRING },
+          sourceIds: SOURCE_IDS_SCHEMA
+        },
+        required: ['success', 'feedback']
       }
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (base64Audio) {
-      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      const binary = atob(base64Audio);
-      const len = binary.length;
-      const bytes = new Uint8Array(len);
-      for (let i = 0; i < len; i++) bytes[i] = binary.charCodeAt(i);
-      
-      const dataInt16 = new Int16Array(bytes.buffer);
-      const buffer = audioCtx.createBuffer(1, dataInt16.length, 24000);
-      const channelData = buffer.getChannelData(0);
-      for (let i = 0; i < dataInt16.length; i++) channelData[i] = dataInt16[i] / 32768.0;
-
-      const source = audioCtx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(audioCtx.destination);
-      source.start();
     }
-  } catch (err) {
-    console.warn("Audio generation failed:", err);
+  });
+
+  return validateVerification(parseJson(response.text), references);
+};
+
+const transcribeAudio = async (base64Audio: string, mimeType: string): Promise<string> => {
+  const prompt = `Transcribe this voice recording verbatim. Return only the spoken words, without commentary.`;
+
+  const response = await generate({
+    model: MODEL_NAME,
+    contents: [
+      { parts: [{ text: prompt }] },
+      { parts: [{ inlineData: { data: base64Audio, mimeType } }] }
+    ]
+  });
+
+  return (response.text || '').trim();
+};
+
+const askFollowUp = async (
+  context: FollowUpContext,
+  history: ChatMessage[],
+  message: ChatMessage
+): Promise<FollowUpReply> => {
+  const { analysis, currentStepIdx } = context;
+  const profile = context.profile || defaultProfileFor(context.mode);
+  const systemInstruction = `${profile.systemPrompt} You are guiding a user through a hands-on procedure.
+  Assessment: ${analysis.category} (${analysis.severity} severity). ${analysis.reasoning}
+  Full procedure: ${JSON.stringify(analysis.steps)}
+  The user is on step ${currentStepIdx + 1}: ${JSON.stringify(analysis.steps[currentStepIdx])}
+  The first message includes the original photos, each preceded by its role.${textCaptureBlock(context.textCaptures)}
+
+  Answer the user's question briefly and concretely.${isSoftwareDomain(context.mode) ? ` ${CODE_BLOCK_RULE}` : ''} ${analysis.template
+    ? `This is the vetted procedure "${analysis.template.name}" and must be followed as written: never add 'revisions'. If it does not fit the situation, say so and advise the user to stop and get help.`
+    : `Only if the plan must change, add 'revisions':
+  REPLACE_CURRENT swaps the current step for a corrected one, INSERT_AFTER_CURRENT adds a new step right after it.`}${referenceBlock(context.references)}
+  Format as JSON.`;
+
+  const turns = [...history, message].map(m => ({
+    role: m.role === 'user' ? 'user' : 'model',
+    parts: [
+      { text: m.text },
+      ...(m.image ? [{ inlineData: { data: m.image, mimeType: 'image/jpeg' } }] : [])
+    ] as Part[]
+  }));
+  const firstUserTurn = turns.find(t => t.role === 'user');
+  if (firstUserTurn) {
+    firstUserTurn.parts.unshift(...labeledImageParts(context.images).flatMap(c => c.parts));
   }
+
+  const response = await generate({
+    model: MODEL_NAME,
+    contents: turns,
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          reply: { type: Type.STRING },
+          sourceIds: SOURCE_IDS_SCHEMA,
+          revisions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                action: { type: Type.STRING, enum: ['REPLACE_CURRENT', 'INSERT_AFTER_CURRENT'] },
+                step: stepSchema(profile)
+              },
+              required: ['action', 'step']
+            }
+          }
+        },
+        required: ['reply']
+      }
+    }
+  });
+
+  return validateFollowUpReply(parseJson(response.text), context.references, profile.extraFields);
+};
+
+// Attempts verified from pasted output have no photo, so their output goes into the prompt instead
+const outputBlock = (attempts: FailedAttempt[]) => attempts.some(a => a.output)
+  ? `\n  Output the user pasted for failed attempts:
+${attempts.flatMap((a, i) => (a.output ? [`  --- Attempt ${i + 1} ---\n${clipPastedText(a.output)}`] : [])).join('\n')}\n`
+  : '';
+
+const planRecovery = async (context: FollowUpContext, attempts: FailedAttempt[]): Promise<RecoveryPlan> => {
+  const { analysis, currentStepIdx } = context;
+  const profile = context.profile || defaultProfileFor(context.mode);
+  const prompt = `${profile.systemPrompt} The user keeps failing verification of a step.
+  Assessment: ${analysis.category} (${analysis.severity} severity). ${analysis.reasoning}
+  Full procedure: ${JSON.stringify(analysis.steps)}
+  Failing step ${currentStepIdx + 1}: ${JSON.stringify(analysis.steps[currentStepIdx])}
+  Verifier feedback for each failed attempt, in order: ${JSON.stringify(attempts.map(a => a.feedback))}
+  The original photos follow, each preceded by its role, then the photos of the failed attempts.${textCaptureBlock(context.textCaptures)}${outputBlock(attempts)}
+
+  Diagnose why the step keeps failing, then choose a strategy:
+  DIAGNOSTIC_SUBSTEPS: 1-3 short steps that find or fix the cause, after which the failing step is retried.
+  REVISED_REMAINDER: the approach itself is wrong; return new steps replacing the failing step and all steps after it.${isSoftwareDomain(context.mode) ? `\n  ${CODE_BLOCK_RULE}` : ''}${referenceBlock(context.references)}
+  Format as JSON.`;
+
+  const response = await generate({
+    model: MODEL_NAME,
+    contents: [
+      { parts: [{ text: prompt }] },
+      ...labeledImageParts([
+        ...context.images,
+        ...attempts.flatMap((a, i) => (a.image ? [{ role: `Failed attempt ${i + 1}`, data: a.image }] : []))
+      ])
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          diagnosis: { type: Type.STRING },
+          strategy: { type: Type.STRING, enum: ['DIAGNOSTIC_SUBSTEPS', 'REVISED_REMAINDER'] },
+          steps: { type: Type.ARRAY, items: stepSchema(profile) }
+        },
+        required: ['diagnosis', 'strategy', 'steps']
+      }
+    }
+  });
+
+  return validateRecoveryPlan(parseJson(response.text), context.references, profile.extraFields);
+};
+
+const observeStep = async (step: GuidanceStep, frames: LiveFrame[], elapsedMs: number): Promise<LiveObservation> => {
+  const prompt = `You are watching a live camera feed of a user performing this step: ${JSON.stringify(step)}
+  The step has been running for ${Math.round(elapsedMs / 1000)} seconds.
+  The next images are consecutive frames, oldest first, taken at these offsets in seconds: ${frames.map(f => (f.offsetMs / 1000).toFixed(1)).join(', ')}.
+  Judge what is happening across the frames, not a single one: held positions, durations, rhythm and technique matter.
+  Return 'metCheckpoints' with the exact text of every checkpoint that is satisfied so far.
+  Set 'complete' only when all checkpoints are met, including any required duration.
+  'feedback' is one short spoken-style sentence of coaching for the user right now.
+  Format as JSON.`;
+
+  const response = await generate({
+    model: MODEL_NAME,
+    contents: [
+      { parts: [{ text: prompt }] },
+      ...frames.map(f => ({ parts: [{ inlineData: { data: f.image, mimeType: 'image/jpeg' } }] }))
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          feedback: { type: Type.STRING },
+          metCheckpoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+          complete: { type: Type.BOOLEAN }
+        },
+        required: ['feedback', 'metCheckpoints', 'complete']
+      }
+    }
+  });
+
+  return validateLiveObservation(parseJson(response.text));
+};
+
+const synthesizeSpeech = async (text: string): Promise<SpeechAudio | null> => {
+  const response = await generate({
+    model: TTS_MODEL_NAME,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: ['AUDIO'],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: TTS_VOICE } }
+      }
+    }
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  return base64Audio ? { data: base64Audio, sampleRate: TTS_SAMPLE_RATE } : null;
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  speechVoice: TTS_VOICE,
+  analyzeSituation,
+  requestEvidence,
+  verifyStep,
+  verifyOutput,
+  transcribeAudio,
+  askFollowUp,
+  synthesizeSpeech,
+  planRecovery,
+  observeStep
 };
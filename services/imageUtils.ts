@@ -0,0 +1,183 @@
+import { ImageAnnotation, ImagePoint } from "../types";
+import { grabGrayFrame, frameDifference, GrayFrame } from "./regionTracker";
+
+// Same encoding CameraView uses for captures, so every image reaching the model looks alike
+const JPEG_QUALITY = 0.8;
+const MAX_DIMENSION = 1920;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+
+// Downscales to MAX_DIMENSION and re-encodes, whatever the source format was
+const drawToJpeg = (source: CanvasImageSource, width: number, height: number): string => {
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1];
+};
+
+export const fileToJpegBase64 = async (file: Blob): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    return drawToJpeg(img, img.naturalWidth, img.naturalHeight);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const MAX_VIDEO_SECONDS = 60;
+// Positions inspected for scene changes; only the chosen key frames are encoded
+const VIDEO_SAMPLES = 16;
+// Mean grey-level change from the last key frame that makes a sample a new key frame
+const KEY_FRAME_CHANGE = 12;
+
+export interface VideoKeyFrame {
+  // Seconds from the start of the clip
+  time: number;
+  data: string;
+}
+
+// Browsers give up on some codecs without ever firing an event, so every wait on the element is bounded
+const VIDEO_LOAD_TIMEOUT_MS = 15000;
+const VIDEO_SEEK_TIMEOUT_MS = 5000;
+
+// Resolves on the event, rejects on a media error or when nothing happens in time
+const waitForVideo = (video: HTMLVideoElement, event: string, timeoutMs: number, timeoutMessage: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const done = (err?: Error) => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+      if (err) reject(err);
+      else resolve();
+    };
+    const onEvent = () => done();
+    const onError = () => done(new Error("Could not decode video"));
+    const timer = setTimeout(() => done(new Error(timeoutMessage)), timeoutMs);
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+const loadVideo = async (src: string): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  const loaded = waitForVideo(video, 'loadeddata', VIDEO_LOAD_TIMEOUT_MS, "The video took too long to load");
+  video.src = src;
+  await loaded;
+  return video;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  const seeked = waitForVideo(video, 'seeked', VIDEO_SEEK_TIMEOUT_MS, "This video cannot be seeked; re-save it as MP4 and try again");
+  video.currentTime = time;
+  return seeked;
+};
+
+// MediaRecorder WebM files carry no duration in their header, so the browser reports Infinity
+// until it has seen the end; seeking far past the end makes it scan there and correct the value
+const resolveDuration = async (video: HTMLVideoElement): Promise<number> => {
+  if (video.duration === Infinity) {
+    await seekTo(video, Number.MAX_SAFE_INTEGER).catch(() => undefined);
+    await seekTo(video, 0).catch(() => undefined);
+  }
+  if (!Number.isFinite(video.duration) || video.duration <= 0) {
+    throw new Error("The video's length is unknown; re-save it as MP4 and try again");
+  }
+  return video.duration;
+};
+
+// Picks the frames where the picture changes, so a slow pan yields one photo per thing it passed
+export const videoToJpegKeyFrames = async (file: Blob, maxFrames: number): Promise<VideoKeyFrame[]> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url);
+    const duration = await resolveDuration(video);
+    if (duration > MAX_VIDEO_SECONDS) {
+      throw new Error(`Video is longer than ${MAX_VIDEO_SECONDS} seconds`);
+    }
+    const grayCanvas = document.createElement('canvas');
+    const samples: { time: number; gray: GrayFrame | null }[] = [];
+    for (let i = 0; i < VIDEO_SAMPLES; i++) {
+      const time = (duration * (i + 0.5)) / VIDEO_SAMPLES;
+      await seekTo(video, time);
+      samples.push({ time, gray: grabGrayFrame(video, video.videoWidth, video.videoHeight, grayCanvas) });
+    }
+
+    const keyFrames = [samples[0]];
+    for (const sample of samples.slice(1)) {
+      const last = keyFrames[keyFrames.length - 1];
+      if (!last.gray || !sample.gray || frameDifference(last.gray, sample.gray) >= KEY_FRAME_CHANGE) keyFrames.push(sample);
+    }
+    const chosen = keyFrames.length <= maxFrames
+      ? keyFrames
+      : Array.from({ length: maxFrames }, (_, i) => keyFrames[Math.floor((i * keyFrames.length) / maxFrames)]);
+
+    const frames: VideoKeyFrame[] = [];
+    for (const { time } of chosen) {
+      await seekTo(video, time);
+      frames.push({ time, data: drawToJpeg(video, video.videoWidth, video.videoHeight) });
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const ANNOTATION_COLOR = '#f43f5e';
+
+export type AnnotationGeometry =
+  | { shape: 'circle'; cx: number; cy: number; r: number }
+  | { shape: 'arrow'; tail: ImagePoint; tip: ImagePoint; wings: [ImagePoint, ImagePoint] };
+
+// Works in pixels so a circle stays round and the arrow head keeps its angle on non-square photos
+export const annotationGeometry = (annotation: ImageAnnotation, width: number, height: number): AnnotationGeometry => {
+  const from = { x: annotation.from.x * width, y: annotation.from.y * height };
+  const to = { x: annotation.to.x * width, y: annotation.to.y * height };
+  if (annotation.shape === 'circle') {
+    return { shape: 'circle', cx: from.x, cy: from.y, r: Math.hypot(to.x - from.x, to.y - from.y) };
+  }
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const size = Math.max(width, height) * 0.04;
+  const wing = (offset: number) => ({ x: to.x - size * Math.cos(angle + offset), y: to.y - size * Math.sin(angle + offset) });
+  return { shape: 'arrow', tail: from, tip: to, wings: [wing(Math.PI / 6), wing(-Math.PI / 6)] };
+};
+
+export const annotationStrokeWidth = (width: number, height: number) => Math.max(3, Math.round(Math.max(width, height) / 150));
+
+// The model sees the user's mark as part of the photo, the same way a person would
+export const burnInAnnotation = async (base64: string, annotation: ImageAnnotation): Promise<string> => {
+  const img = await loadImage(`data:image/jpeg;base64,${base64}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return base64;
+  ctx.drawImage(img, 0, 0);
+  ctx.strokeStyle = ANNOTATION_COLOR;
+  ctx.lineWidth = annotationStrokeWidth(canvas.width, canvas.height);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  const geometry = annotationGeometry(annotation, canvas.width, canvas.height);
+  ctx.beginPath();
+  if (geometry.shape === 'circle') {
+    ctx.arc(geometry.cx, geometry.cy, geometry.r, 0, Math.PI * 2);
+  } else {
+    ctx.moveTo(geometry.tail.x, geometry.tail.y);
+    ctx.lineTo(geometry.tip.x, geometry.tip.y);
+    ctx.moveTo(geometry.wings[0].x, geometry.wings[0].y);
+    ctx.lineTo(geometry.tip.x, geometry.tip.y);
+    ctx.lineTo(geometry.wings[1].x, geometry.wings[1].y);
+  }
+  ctx.stroke();
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1];
+};
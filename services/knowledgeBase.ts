@@ -0,0 +1,250 @@
+import { DomainId, KnowledgeDocument, KnowledgeFormat, KnowledgePassage, SourceCitation } from "../types";
+import { extractPdfPages } from "./pdfText";
+
+// Kept apart from the session database so manuals can be re-imported without touching saved procedures
+const DB_NAME = 'masterEverythingKnowledge';
+const DB_VERSION = 1;
+const DOCUMENT_STORE = 'documents';
+const PASSAGE_STORE = 'passages';
+
+// Long enough to hold a spec table or a procedure paragraph, short enough to quote several in a prompt
+const PASSAGE_CHARS = 900;
+// BM25 term saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(('a an and are as at be by for from has have if in into is it its of on or that the this to was were '
+  + 'will with you your not do does can should then than when which what how').split(' '));
+
+interface Section {
+  page?: number;
+  heading?: string;
+  text: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(DOCUMENT_STORE)) {
+          db.createObjectStore(DOCUMENT_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PASSAGE_STORE)) {
+          const passages = db.createObjectStore(PASSAGE_STORE, { keyPath: 'id' });
+          passages.createIndex('mode', 'mode');
+          passages.createIndex('documentId', 'documentId');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = op(db.transaction(storeName, mode).objectStore(storeName));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+// A document and its passages are written or removed together so the index never points at a missing file
+const runTransaction = async (op: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([DOCUMENT_STORE, PASSAGE_STORE], 'readwrite');
+    op(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+const formatOf = (file: File): KnowledgeFormat | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (/\.(md|markdown)$/.test(name) || file.type === 'text/markdown') return 'markdown';
+  if (/\.(txt|text)$/.test(name) || file.type === 'text/plain') return 'text';
+  return null;
+};
+
+// Markdown is split at headings so each passage can cite the section it came from
+const markdownSections = (source: string): Section[] => {
+  const sections: Section[] = [];
+  let current: Section = { text: '' };
+  for (const line of source.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: heading[1], text: '' };
+    } else {
+      current.text += `${line}\n`;
+    }
+  }
+  if (current.text.trim()) sections.push(current);
+  return sections;
+};
+
+// Paragraphs are packed into passages; one longer than a passage is cut between words
+const splitPassages = (text: string): string[] => {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap(p => p.length <= PASSAGE_CHARS ? [p] : p.match(new RegExp(`\\S.{0,${PASSAGE_CHARS - 1}}(?=\\s|$)`, 'g')) || [p]);
+  const passages: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > PASSAGE_CHARS) {
+      passages.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${piece}` : piece;
+  }
+  if (current) passages.push(current);
+  return passages;
+};
+
+const readSections = async (file: File, format: KnowledgeFormat): Promise<Section[]> => {
+  if (format === 'pdf') {
+    const pages = await extractPdfPages(await file.arrayBuffer());
+    // PDF pages are single-spaced lines, so every line break is treated as a paragraph break
+    return pages.map((text, i) => ({ page: i + 1, text: text.replace(/\n/g, '\n\n') }));
+  }
+  const text = await file.text();
+  return format === 'markdown' ? markdownSections(text) : [{ text }];
+};
+
+export const listDocuments = async (): Promise<KnowledgeDocument[]> => {
+  const documents = await runRequest(DOCUMENT_STORE, 'readonly', store => store.getAll() as IDBRequest<KnowledgeDocument[]>);
+  return documents.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Term statistics are rebuilt per mode on first use and dropped whenever documents change
+interface ModeIndex {
+  passages: KnowledgePassage[];
+  terms: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+const indexCache = new Map<DomainId, Promise<ModeIndex>>();
+
+const buildIndex = async (mode: DomainId): Promise<ModeIndex> => {
+  const passages = await runRequest(PASSAGE_STORE, 'readonly', store => store.index('mode').getAll(mode) as IDBRequest<KnowledgePassage[]>);
+  const documentFrequency = new Map<string, number>();
+  const terms = passages.map(p => {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(`${p.heading || ''} ${p.text}`)) counts.set(token, (counts.get(token) || 0) + 1);
+    counts.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1));
+    return counts;
+  });
+  const lengths = terms.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / (lengths.length || 1);
+  return { passages, terms, lengths, documentFrequency, averageLength };
+};
+
+const getIndex = (mode: DomainId): Promise<ModeIndex> => {
+  if (!indexCache.has(mode)) {
+    const index = buildIndex(mode);
+    index.catch(() => indexCache.delete(mode));
+    indexCache.set(mode, index);
+  }
+  return indexCache.get(mode)!;
+};
+
+export const addDocument = async (file: File, mode: DomainId): Promise<KnowledgeDocument> => {
+  const format = formatOf(file);
+  if (!format) throw new Error('Only PDF, Markdown and text files can be added');
+  const sections = await readSections(file, format);
+  const document: KnowledgeDocument = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    mode,
+    format,
+    ...(format === 'pdf' ? { pageCount: sections.length } : {}),
+    passageCount: 0,
+    addedAt: Date.now()
+  };
+  const passages: KnowledgePassage[] = sections.flatMap(section =>
+    splitPassages(section.text).map(text => ({
+      id: crypto.randomUUID(),
+      documentId: document.id,
+      documentName: document.name,
+      mode,
+      ...(section.page ? { page: section.page } : {}),
+      ...(section.heading ? { heading: section.heading } : {}),
+      text
+    }))
+  );
+  if (!passages.length) {
+    throw new Error(format === 'pdf' ? 'No text found. Scanned PDFs need to be converted to text first.' : 'The file is empty');
+  }
+  document.passageCount = passages.length;
+  await runTransaction(tx => {
+    tx.objectStore(DOCUMENT_STORE).put(document);
+    const store = tx.objectStore(PASSAGE_STORE);
+    passages.forEach(p => store.put(p));
+  });
+  indexCache.delete(mode);
+  return document;
+};
+
+export const deleteDocument = async (document: KnowledgeDocument): Promise<void> => {
+  const keys = await runRequest(PASSAGE_STORE, 'readonly', store => store.index('documentId').getAllKeys(document.id));
+  await runTransaction(tx => {
+    tx.objectStore(DOCUMENT_STORE).delete(document.id);
+    const store = tx.objectStore(PASSAGE_STORE);
+    keys.forEach(key => store.delete(key));
+  });
+  indexCache.delete(document.mode);
+};
+
+// Ranks the mode's passages against the query with BM25. Retrieval only adds context,
+// so a failing index is logged and the caller carries on without references.
+export const retrievePassages = async (mode: DomainId, query: string, limit = 4): Promise<KnowledgePassage[]> => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (!queryTerms.length) return [];
+  try {
+    const index = await getIndex(mode);
+    const total = index.passages.length;
+    return index.terms
+      .map((counts, i) => {
+        const score = queryTerms.reduce((sum, term) => {
+          const tf = counts.get(term);
+          if (!tf) return sum;
+          const df = index.documentFrequency.get(term)!;
+          const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+          return sum + idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * index.lengths[i] / index.averageLength));
+        }, 0);
+        return { passage: index.passages[i], score };
+      })
+      .filter(r => r.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(r => r.passage);
+  } catch (err) {
+    console.warn("Knowledge base lookup failed:", err);
+    return [];
+  }
+};
+
+// "Service Manual.pdf, p. 12" or "Wiring.md › Connectors"
+export const describeSource = (source: KnowledgePassage | SourceCitation): string => {
+  if (source.page) return `${source.documentName}, p. ${source.page}`;
+  return source.heading ? `${source.documentName} › ${source.heading}` : source.documentName;
+};
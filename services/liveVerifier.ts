@@ -0,0 +1,70 @@
+import { GuidanceStep, LiveFrame, LiveObservation } from "../types";
+import { observeStep } from "./aiService";
+
+// Sampling bounds; busy scenes are sampled towards the minimum, still ones towards the maximum
+const MIN_SAMPLE_INTERVAL_MS = 1000;
+const MAX_SAMPLE_INTERVAL_MS = 4000;
+// Mean grey-level change between samples treated as full motion
+const HIGH_MOTION = 12;
+// Frames sent with each request, oldest first
+const WINDOW_SIZE = 4;
+
+// Streams sampled camera frames of one step to the model and reports rolling observations.
+// Only one request is in flight at a time; frames sampled meanwhile join the next window.
+export const createLiveVerifier = (
+  step: GuidanceStep,
+  onObservation: (observation: LiveObservation) => void,
+  onError: (err: unknown) => void
+) => {
+  const startedAt = Date.now();
+  const frames: LiveFrame[] = [];
+  // Checkpoints stay met once the model has seen them, even if later frames no longer show them
+  const met = new Set<string>();
+  let inFlight = false;
+  let stopped = false;
+  let latencyMs = 0;
+
+  const send = async () => {
+    inFlight = true;
+    const sentAt = Date.now();
+    try {
+      const observation = await observeStep(step, [...frames], sentAt - startedAt);
+      if (stopped) return;
+      observation.metCheckpoints.forEach(c => met.add(c));
+      // The model's flag covers held durations, but the step is only done once every checkpoint has been seen
+      const complete = observation.complete && (step.checkpoints || []).every(c => met.has(c));
+      if (complete) stopped = true;
+      onObservation({ ...observation, metCheckpoints: [...met], complete });
+    } catch (err) {
+      console.warn("Live verification request failed:", err);
+      if (!stopped) onError(err);
+    } finally {
+      latencyMs = Date.now() - sentAt;
+      inFlight = false;
+    }
+  };
+
+  return {
+    // Accepts a sampled frame and returns how long to wait before sampling the next one
+    push(image: string, motion: number): number {
+      if (stopped) return MAX_SAMPLE_INTERVAL_MS;
+      frames.push({ image, offsetMs: Date.now() - startedAt });
+      if (frames.length > WINDOW_SIZE) frames.shift();
+      if (!inFlight) send();
+      const activity = Math.min(1, motion / HIGH_MOTION);
+      const interval = MAX_SAMPLE_INTERVAL_MS - (MAX_SAMPLE_INTERVAL_MS - MIN_SAMPLE_INTERVAL_MS) * activity;
+      // Sampling faster than the model answers only produces frames that are dropped from the window
+      return Math.max(interval, Math.min(latencyMs / 2, MAX_SAMPLE_INTERVAL_MS));
+    },
+
+    latestFrame(): string | undefined {
+      return frames[frames.length - 1]?.image;
+    },
+
+    stop() {
+      stopped = true;
+    }
+  };
+};
+
+export type LiveVerifier = ReturnType<typeof createLiveVerifier>;
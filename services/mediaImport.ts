@@ -0,0 +1,46 @@
+import { fileToJpegBase64, videoToJpegKeyFrames } from "./imageUtils";
+
+export interface ImportedImage {
+  data: string;
+  // Set for video frames; imported photos take the role the user is currently capturing
+  role?: string;
+}
+
+const MAX_FILES = 10;
+const MAX_FRAMES_PER_VIDEO = 4;
+
+const formatClipTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const isVideo = (file: File) => file.type.startsWith('video/');
+
+// Picker, paste and drop all arrive as a DataTransfer or FileList; only images and videos are kept
+export const mediaFiles = (source: DataTransfer | FileList | null): File[] => {
+  if (!source) return [];
+  const files = 'items' in source
+    ? Array.from(source.items).filter(item => item.kind === 'file').map(item => item.getAsFile())
+    : Array.from(source);
+  return files.filter((f): f is File => !!f && (f.type.startsWith('image/') || isVideo(f)));
+};
+
+// Files are decoded one at a time so at most one video sits in memory
+export const importMediaFiles = async (files: File[]): Promise<ImportedImage[]> => {
+  const imported: ImportedImage[] = [];
+  let firstError: unknown = null;
+  for (const file of files.slice(0, MAX_FILES)) {
+    try {
+      if (isVideo(file)) {
+        const frames = await videoToJpegKeyFrames(file, MAX_FRAMES_PER_VIDEO);
+        imported.push(...frames.map(f => ({ data: f.data, role: `Video frame at ${formatClipTime(f.time)}` })));
+      } else {
+        imported.push({ data: await fileToJpegBase64(file) });
+      }
+    } catch (err) {
+      console.warn(`Import of ${file.name} failed:`, err);
+      firstError = firstError || err;
+    }
+  }
+  // A partly failed import still delivers what worked
+  if (!imported.length && firstError) throw firstError;
+  return imported;
+};
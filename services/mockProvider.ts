@@ -0,0 +1,416 @@
+import {
+  AppMode,
+  DomainId,
+  AnalysisResult,
+  AIProvider,
+  GuidanceStep,
+  SpeechAudio,
+  VerificationResult,
+  ChatMessage,
+  FollowUpContext,
+  FollowUpReply,
+  FailedAttempt,
+  RecoveryPlan,
+  LiveFrame,
+  LiveObservation,
+  LabeledImage,
+  EvidenceRequest,
+  ProcedureTemplate,
+  KnowledgePassage,
+  ModeProfile,
+  StepDetail,
+  VerificationStrictness,
+  TextCapture
+} from "../types";
+import { fillTemplate, matchTemplate } from "./procedureTemplates";
+import { validateCitations } from "./responseValidation";
+import { defaultProfileFor } from "./modeProfiles";
+import { getDomain } from "./domains";
+
+// Deterministic offline provider for development and automated runs without an API key.
+// Every call resolves to the same canned data for the same input.
+
+const MOCK_LATENCY_MS = 300;
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// The best-ranked reference passage is always cited, so citation display can be exercised offline
+const citeFirst = (references: KnowledgePassage[] = []) => validateCitations(['S1'], references);
+
+// Placeholder values for every extra profile field, so step details can be exercised offline
+const mockDetails = (profile: ModeProfile): StepDetail[] =>
+  profile.extraFields.map(f => ({ key: f.key, label: f.label, type: f.type, value: f.type === 'list' ? [`Example ${f.label.toLowerCase()}`] : `Example ${f.label.toLowerCase()}` }));
+
+const MOCK_STEPS: Record<AppMode, Omit<GuidanceStep, 'id'>[]> = {
+  [AppMode.FIRST_AID]: [
+    {
+      title: 'Clean the Wound',
+      instruction: 'Rinse the area under cool running water for at least 30 seconds to remove debris.',
+      duration: '1 min',
+      materials: [{ name: 'Clean water', alternative: 'Saline solution' }, { name: 'Disposable gloves' }],
+      warnings: ['Do not scrub the wound directly.'],
+      checkpoints: ['No visible debris remains', 'Surrounding skin is clean'],
+      audioPrompt: 'Rinse the wound under cool running water for thirty seconds.',
+      arOverlayType: 'wash'
+    },
+    {
+      title: 'Apply Pressure',
+      instruction: 'Press a sterile gauze pad firmly on the wound until bleeding stops.',
+      duration: '5-10 mins',
+      warnings: ['Do not lift the gauze to check too early.'],
+      checkpoints: ['Bleeding has slowed', 'Gauze is held firmly in place'],
+      audioPrompt: 'Press sterile gauze firmly on the wound until the bleeding stops.',
+      arOverlayType: 'press',
+      targetRegion: { label: 'Wound', box: { x: 0.35, y: 0.4, width: 0.3, height: 0.2 } }
+    },
+    {
+      title: 'Dress the Wound',
+      instruction: 'Cover the wound with a clean adhesive bandage.',
+      duration: '1 min',
+      warnings: ['Avoid wrapping too tightly.'],
+      checkpoints: ['Wound fully covered', 'Bandage edges are sealed'],
+      audioPrompt: 'Cover the wound with a clean bandage.',
+      arOverlayType: 'hand'
+    }
+  ],
+  [AppMode.ROBOTICS]: [
+    {
+      title: 'Isolate Power',
+      instruction: 'Disconnect the battery pack and wait for capacitors to discharge.',
+      duration: '2 mins',
+      materials: [{ name: 'Multimeter' }, { name: 'ESD strap', alternative: 'Grounded metal surface' }],
+      warnings: ['Never probe a live high-current bus.'],
+      checkpoints: ['Battery connector unplugged', 'Rail voltage reads 0V'],
+      audioPrompt: 'Disconnect the battery and let the capacitors discharge.',
+      arOverlayType: 'bolt'
+    },
+    {
+      title: 'Inspect Connector',
+      instruction: 'Check the motor controller connector for bent pins or corrosion.',
+      duration: '3 mins',
+      warnings: ['Do not force a misaligned connector.'],
+      checkpoints: ['All pins are straight', 'No green or white residue'],
+      audioPrompt: 'Inspect the motor controller connector for bent pins.',
+      arOverlayType: 'scan',
+      targetRegion: { label: 'Motor connector', box: { x: 0.3, y: 0.35, width: 0.4, height: 0.25 } }
+    },
+    {
+      title: 'Reseat and Test',
+      instruction: 'Reseat the connector, restore power and run the motor self-test.',
+      duration: '2 mins',
+      warnings: ['Keep hands clear of moving parts.'],
+      checkpoints: ['Connector clicks into place', 'Self-test passes'],
+      audioPrompt: 'Reseat the connector, restore power and run the self test.',
+      arOverlayType: 'arrow'
+    }
+  ],
+  [AppMode.MECHANICAL]: [
+    {
+      title: 'Secure the Vehicle',
+      instruction: 'Park on level ground, engage the parking brake and chock the wheels.',
+      duration: '2 mins',
+      materials: [{ name: 'Wheel chocks', alternative: 'Wooden blocks' }, { name: 'Socket set' }],
+      warnings: ['Never work under a car supported only by a jack.'],
+      checkpoints: ['Parking brake engaged', 'Wheels chocked'],
+      audioPrompt: 'Park on level ground, set the parking brake and chock the wheels.',
+      arOverlayType: 'hand'
+    },
+    {
+      title: 'Loosen Fasteners',
+      instruction: 'Break loose the caliper bolts a quarter turn counter-clockwise.',
+      duration: '5 mins',
+      warnings: ['Use the correct socket size to avoid rounding bolts.'],
+      checkpoints: ['Both bolts turn freely', 'No thread damage visible'],
+      audioPrompt: 'Loosen the caliper bolts a quarter turn.',
+      arOverlayType: 'gear',
+      targetRegion: { label: 'Caliper bolt', box: { x: 0.45, y: 0.5, width: 0.15, height: 0.15 } }
+    },
+    {
+      title: 'Torque to Spec',
+      instruction: 'Reinstall and torque the bolts to the manufacturer specification.',
+      duration: '5 mins',
+      warnings: ['Do not exceed the torque specification.'],
+      checkpoints: ['Torque wrench clicked', 'Bolts seated flush'],
+      audioPrompt: 'Reinstall the bolts and torque them to specification.',
+      arOverlayType: 'bolt'
+    }
+  ],
+  [AppMode.CODING]: [
+    {
+      title: 'Read the Error',
+      instruction: 'Locate the first stack frame that points into your own code.',
+      duration: '2 mins',
+      materials: [{ name: 'Terminal access' }, { name: 'Source editor' }],
+      warnings: ['Later errors are often caused by the first one.'],
+      checkpoints: ['Failing file identified', 'Failing line identified'],
+      audioPrompt: 'Find the first stack frame that points into your own code.',
+      arOverlayType: 'scan'
+    },
+    {
+      title: 'Apply the Fix',
+      instruction: 'Add a null check before the property access on the failing line.',
+      duration: '3 mins',
+      warnings: ['Do not silence the error without handling it.'],
+      checkpoints: ['Guard clause added', 'File saves without syntax errors'],
+      audioPrompt: 'Add a null check before the failing property access.',
+      arOverlayType: 'code',
+      codeBlocks: [{
+        kind: 'diff',
+        language: 'typescript',
+        filename: 'src/user.ts',
+        content: '@@ -12,3 +12,4 @@\n export const displayName = (user?: User) => {\n-  return user.profile.name;\n+  if (!user?.profile) return \'Guest\';\n+  return user.profile.name;\n };'
+      }]
+    },
+    {
+      title: 'Re-run Tests',
+      instruction: 'Run the test suite and confirm the failure is gone.',
+      duration: '2 mins',
+      warnings: ['Check for new failures, not just the old one.'],
+      checkpoints: ['Original test passes', 'No new failures'],
+      audioPrompt: 'Run the test suite and confirm it passes.',
+      arOverlayType: 'code',
+      codeBlocks: [{ kind: 'command', language: 'bash', content: 'npm test' }]
+    }
+  ],
+  [AppMode.TRADES]: [
+    {
+      title: 'Cut the Power',
+      instruction: 'Switch off the circuit at the breaker panel and lock it out.',
+      duration: '2 mins',
+      materials: [{ name: 'Non-contact voltage tester' }, { name: 'Insulated screwdriver' }],
+      warnings: ['Always verify the circuit is dead before touching wires.'],
+      checkpoints: ['Breaker is off', 'Tester shows no voltage'],
+      audioPrompt: 'Switch off the breaker and verify the circuit is dead.',
+      arOverlayType: 'bolt'
+    },
+    {
+      title: 'Remove the Fixture',
+      instruction: 'Unscrew the faceplate and gently pull the fixture out of the box.',
+      duration: '3 mins',
+      warnings: ['Do not yank on the wires.'],
+      checkpoints: ['Faceplate removed', 'Wires visible and intact'],
+      audioPrompt: 'Unscrew the faceplate and pull the fixture out gently.',
+      arOverlayType: 'gear'
+    },
+    {
+      title: 'Secure Connections',
+      instruction: 'Tighten each terminal screw so the conductors cannot move.',
+      duration: '3 mins',
+      warnings: ['Do not leave bare copper exposed.'],
+      checkpoints: ['Terminal screws tight', 'No exposed copper'],
+      audioPrompt: 'Tighten every terminal screw so the wires cannot move.',
+      arOverlayType: 'circle',
+      targetRegion: { label: 'Terminal screw', box: { x: 0.4, y: 0.45, width: 0.2, height: 0.15 } }
+    }
+  ],
+  [AppMode.GENERAL]: [
+    {
+      title: 'Document the State',
+      instruction: 'Note any labels, model numbers and indicator lights.',
+      duration: '2 mins',
+      materials: [{ name: 'Notepad', alternative: 'Phone notes' }],
+      warnings: ['Do not change anything before documenting it.'],
+      checkpoints: ['Model number recorded', 'Indicator states recorded'],
+      audioPrompt: 'Write down the model number and indicator lights.',
+      arOverlayType: 'scan'
+    },
+    {
+      title: 'Power Cycle',
+      instruction: 'Turn the device off, wait 30 seconds and turn it back on.',
+      duration: '1 min',
+      warnings: ['Save any open work first.'],
+      checkpoints: ['Device fully powered down', 'Device boots normally'],
+      audioPrompt: 'Turn the device off, wait thirty seconds, then turn it back on.',
+      arOverlayType: 'press'
+    },
+    {
+      title: 'Confirm Operation',
+      instruction: 'Run the device through its normal function and watch for the original fault.',
+      duration: '3 mins',
+      warnings: ['Stop immediately if the fault returns with smoke or heat.'],
+      checkpoints: ['Normal function observed', 'Original fault absent'],
+      audioPrompt: 'Run the device normally and check the fault is gone.',
+      arOverlayType: 'circle'
+    }
+  ]
+};
+
+const MOCK_SCREEN_TEXT = {
+  imageNumber: 1,
+  language: 'text',
+  text: "TypeError: Cannot read properties of undefined (reading 'name')\n    at displayName (src/user.ts:13:23)"
+};
+
+const analyzeSituation = async (
+  mode: DomainId,
+  images: LabeledImage[],
+  voiceText?: string,
+  templates: ProcedureTemplate[] = [],
+  references: KnowledgePassage[] = [],
+  profile: ModeProfile = defaultProfileFor(mode),
+  textCaptures: TextCapture[] = []
+): Promise<AnalysisResult> => {
+  await delay(MOCK_LATENCY_MS);
+  // Confidence rises once extra evidence is supplied, so the low-confidence flow can be exercised offline
+  const hasEvidence = images.length > 2;
+  // The first vetted procedure always matches, filled with its default values
+  const template = templates[0];
+  const match = template ? matchTemplate(template, {}) : null;
+  const citations = citeFirst(references);
+  const details = mockDetails(profile);
+  const domain = getDomain(mode);
+  const steps = match
+    ? fillTemplate(template, match.parameters)
+    : MOCK_STEPS[domain.baseMode].slice(0, profile.maxSteps).map((step, i) => ({ ...step, id: i + 1, ...(i === 0 && details.length ? { details } : {}) }));
+  return {
+    category: `Mock ${domain.name} Assessment`,
+    confidence: hasEvidence ? 0.9 : 0.65,
+    reasoning: [
+      voiceText
+        ? `Deterministic mock analysis for the reported issue: "${voiceText}".`
+        : 'Deterministic mock analysis generated without contacting a model.',
+      ...textCaptures.slice(0, 1).map(c => `Pasted ${c.kind.toLowerCase()} starts with "${c.text.trim().split('\n')[0]}".`)
+    ].join(' '),
+    severity: 'LOW',
+    uncertainties: hasEvidence ? [] : ['Model or part number is not visible'],
+    isSafeToProceed: true,
+    steps: citations && !match ? steps.map((step, i) => (i === 0 ? { ...step, source: citations[0] } : step)) : steps,
+    ...(match ? { template: match } : {}),
+    ...(citations ? { citations } : {}),
+    // Software domains get a canned transcript of the first photo, so OCR display can be exercised offline
+    ...(domain.baseMode === AppMode.CODING && images.length ? { screenText: [MOCK_SCREEN_TEXT] } : {})
+  };
+};
+
+const requestEvidence = async (_mode: DomainId, _analysis: AnalysisResult, _images: LabeledImage[]): Promise<EvidenceRequest[]> => {
+  await delay(MOCK_LATENCY_MS);
+  return [
+    { description: 'Photo of the label or part number', reason: 'Identifies the exact model.' },
+    { description: 'Side view of the affected area', reason: 'Shows depth and connections hidden from the front.' }
+  ];
+};
+
+// Cheap fingerprint of a photo; every retake has different bytes, so it also varies between attempts
+const imageChecksum = (base64Image: string) => {
+  let sum = 0;
+  for (let i = 0; i < base64Image.length; i += 97) sum = (sum + base64Image.charCodeAt(i)) % 65536;
+  return sum;
+};
+
+// Roughly half of all photos fail, decided by the image bytes, so retries, recovery and escalation
+// can be exercised offline; the same photo always gets the same result
+const verifyStep = async (
+  instruction: string,
+  base64Image: string,
+  references: KnowledgePassage[] = [],
+  _strictness?: VerificationStrictness
+): Promise<VerificationResult> => {
+  await delay(MOCK_LATENCY_MS);
+  const citations = citeFirst(references);
+  const failed = imageChecksum(base64Image) % 2 === 1;
+  return {
+    success: !failed,
+    feedback: failed ? `Mock check could not confirm: ${instruction}` : `Mock verification passed for: ${instruction}`,
+    ...(citations ? { citations } : {})
+  };
+};
+
+// Output that mentions an error or failure fails, anything else passes
+const verifyOutput = async (
+  instruction: string,
+  output: string,
+  references: KnowledgePassage[] = [],
+  _strictness?: VerificationStrictness
+): Promise<VerificationResult> => {
+  await delay(MOCK_LATENCY_MS);
+  const citations = citeFirst(references);
+  const failed = /\b(error|fail(ed|ure)?|exception)\b/i.test(output);
+  return {
+    success: !failed,
+    feedback: failed ? `Mock check found an error in the output for: ${instruction}` : `Mock verification passed for: ${instruction}`,
+    ...(citations ? { citations } : {})
+  };
+};
+
+const transcribeAudio = async (_base64Audio: string, _mimeType: string): Promise<string> => {
+  await delay(MOCK_LATENCY_MS);
+  return 'It makes a grinding noise when I use it.';
+};
+
+// Asking to "revise" the plan inserts a fixed check step so the splice path can be exercised
+const askFollowUp = async (
+  context: FollowUpContext,
+  _history: ChatMessage[],
+  message: ChatMessage
+): Promise<FollowUpReply> => {
+  await delay(MOCK_LATENCY_MS);
+  const step = context.analysis.steps[context.currentStepIdx];
+  if (/revise|change|different/i.test(message.text)) {
+    return {
+      text: `Understood. I've added a check before continuing past "${step.title}".`,
+      revisions: [{
+        action: 'INSERT_AFTER_CURRENT',
+        step: {
+          id: 0,
+          title: 'Double-Check Your Work',
+          instruction: 'Compare your work against the checkpoints of the previous step before moving on.',
+          warnings: ['Do not continue if anything looks different from the description.'],
+          checkpoints: ['Previous checkpoints re-confirmed', 'No new issues visible'],
+          audioPrompt: 'Double-check your work before moving on.',
+          arOverlayType: 'scan'
+        }
+      }]
+    };
+  }
+  const citations = citeFirst(context.references);
+  return { text: `Mock answer for "${step.title}": follow the instruction as written and check each checkpoint.`, ...(citations ? { citations } : {}) };
+};
+
+const planRecovery = async (context: FollowUpContext, attempts: FailedAttempt[]): Promise<RecoveryPlan> => {
+  await delay(MOCK_LATENCY_MS);
+  const step = context.analysis.steps[context.currentStepIdx];
+  return {
+    diagnosis: `"${step.title}" failed ${attempts.length} checks: ${attempts[attempts.length - 1]?.feedback || 'no feedback'}`,
+    strategy: 'DIAGNOSTIC_SUBSTEPS',
+    steps: [{
+      id: 0,
+      title: 'Inspect the Work Area',
+      instruction: `Look closely at the area from "${step.title}" and clear anything blocking the view or the work.`,
+      checkpoints: ['Area is clearly visible', 'Nothing obstructs the component'],
+      audioPrompt: 'Inspect the work area and clear any obstructions.',
+      arOverlayType: 'scan'
+    }]
+  };
+};
+
+// Live checks tick off one checkpoint per interval so the rolling UI can be exercised offline
+const MOCK_CHECKPOINT_INTERVAL_MS = 3000;
+
+const observeStep = async (step: GuidanceStep, _frames: LiveFrame[], elapsedMs: number): Promise<LiveObservation> => {
+  await delay(MOCK_LATENCY_MS);
+  const checkpoints = step.checkpoints?.length ? step.checkpoints : [step.title];
+  const metCheckpoints = checkpoints.slice(0, Math.floor(elapsedMs / MOCK_CHECKPOINT_INTERVAL_MS));
+  const complete = metCheckpoints.length === checkpoints.length;
+  return {
+    feedback: complete ? 'All checkpoints met.' : `Keep going: ${checkpoints[metCheckpoints.length]}.`,
+    metCheckpoints,
+    complete
+  };
+};
+
+// The mock provider has no voice; the audio player falls back to browser speech
+const synthesizeSpeech = async (_text: string): Promise<SpeechAudio | null> => null;
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  speechVoice: 'none',
+  analyzeSituation,
+  requestEvidence,
+  verifyStep,
+  verifyOutput,
+  transcribeAudio,
+  askFollowUp,
+  synthesizeSpeech,
+  planRecovery,
+  observeStep
+};
@@ -0,0 +1,179 @@
+import { AppMode, DomainId, ModeProfile, ProfileField, STEP_DETAIL_FIELDS, StepDetailField, VerificationStrictness } from "../types";
+import { BUILT_IN_DOMAINS, getDomain } from "./domains";
+import { verificationFailureLimit } from "./safetyPolicy";
+
+const PROFILES_STORAGE_KEY = 'masterEverything.modeProfiles';
+const HISTORY_STORAGE_KEY = 'masterEverything.modeProfileHistory';
+// Saved versions kept per mode, newest first; older ones are dropped
+const MAX_HISTORY = 25;
+
+export const MAX_STEPS = 20;
+export const VERIFICATION_STRICTNESS: VerificationStrictness[] = ['LENIENT', 'STANDARD', 'STRICT'];
+export const PROFILE_FIELD_TYPES: ProfileField['type'][] = ['text', 'list', 'code'];
+
+// Extra fields sit on the step object next to these, so they cannot reuse the names
+const RESERVED_KEYS = new Set([
+  'id', 'title', 'instruction', 'duration', 'materials', 'warnings', 'checkpoints', 'audioPrompt',
+  'arOverlayType', 'targetRegion', 'sourceId', 'details', 'isRecoveryStep', 'source', 'codeBlocks'
+]);
+
+// Built-in prompts are the built-in domains' personas
+const defaultProfile = (mode: AppMode, profile: Omit<ModeProfile, 'mode' | 'version' | 'updatedAt' | 'systemPrompt'>): ModeProfile => ({
+  mode,
+  version: 1,
+  updatedAt: 0,
+  systemPrompt: BUILT_IN_DOMAINS.find(d => d.id === mode)!.persona,
+  ...profile
+});
+
+const DEFAULT_PROFILES: Record<AppMode, ModeProfile> = {
+  [AppMode.FIRST_AID]: defaultProfile(AppMode.FIRST_AID, {
+    minSteps: 3,
+    maxSteps: 6,
+    requiredFields: ['duration', 'warnings', 'checkpoints'],
+    extraFields: [],
+    verificationStrictness: 'STRICT',
+    recoverAfterFailures: null
+  }),
+  [AppMode.ROBOTICS]: defaultProfile(AppMode.ROBOTICS, {
+    minSteps: 3,
+    maxSteps: 8,
+    requiredFields: ['warnings', 'checkpoints'],
+    extraFields: [
+      { key: 'pinout', label: 'Pinout', type: 'list', description: "Pin-by-pin connections of any connector the step touches, as 'pin: signal'" },
+      { key: 'expectedReadings', label: 'Expected Readings', type: 'list', description: "Multimeter or scope readings that confirm the step, as 'test point: value'" }
+    ],
+    verificationStrictness: 'STANDARD',
+    recoverAfterFailures: 2
+  }),
+  [AppMode.MECHANICAL]: defaultProfile(AppMode.MECHANICAL, {
+    minSteps: 3,
+    maxSteps: 12,
+    requiredFields: ['duration', 'warnings', 'checkpoints'],
+    extraFields: [
+      { key: 'torqueSpecs', label: 'Torque Specs', type: 'list', description: "Torque for every fastener the step tightens, as 'fastener: value with unit'; mark values that are typical rather than manufacturer-specified" }
+    ],
+    verificationStrictness: 'STANDARD',
+    recoverAfterFailures: 2
+  }),
+  [AppMode.CODING]: defaultProfile(AppMode.CODING, {
+    minSteps: 2,
+    maxSteps: 8,
+    requiredFields: ['checkpoints'],
+    // Code, diffs and commands come back as the steps' code blocks
+    extraFields: [],
+    verificationStrictness: 'LENIENT',
+    recoverAfterFailures: 3
+  }),
+  [AppMode.TRADES]: defaultProfile(AppMode.TRADES, {
+    minSteps: 3,
+    maxSteps: 10,
+    requiredFields: ['warnings', 'checkpoints'],
+    extraFields: [
+      { key: 'specifications', label: 'Specifications', type: 'list', description: 'Wire gauges, breaker ratings, fastener sizes or clearances that apply to the step' }
+    ],
+    verificationStrictness: 'STANDARD',
+    recoverAfterFailures: 2
+  }),
+  [AppMode.GENERAL]: defaultProfile(AppMode.GENERAL, {
+    minSteps: 3,
+    maxSteps: 6,
+    requiredFields: ['warnings', 'checkpoints'],
+    extraFields: [],
+    verificationStrictness: 'STANDARD',
+    recoverAfterFailures: 2
+  })
+};
+
+// Custom domains start from their base mode's shape with their own persona as the prompt
+export const defaultProfileFor = (domainId: DomainId): ModeProfile => {
+  const domain = getDomain(domainId);
+  const base = DEFAULT_PROFILES[domain.baseMode];
+  return domain.builtIn ? base : { ...base, mode: domain.id, systemPrompt: domain.persona || base.systemPrompt };
+};
+
+const getSavedProfiles = (): Record<DomainId, ModeProfile> => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const getSavedHistory = (): Record<DomainId, ModeProfile[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Profiles saved before a setting existed take that setting's default
+export const getProfile = (mode: DomainId): ModeProfile => {
+  const defaults = defaultProfileFor(mode);
+  const saved = getSavedProfiles()[mode];
+  return saved ? { ...defaults, ...saved } : defaults;
+};
+
+// Throws with a message fit for the editor; trims and drops blank entries rather than rejecting them
+export const validateProfile = (profile: ModeProfile): ModeProfile => {
+  const systemPrompt = profile.systemPrompt.trim();
+  if (!systemPrompt) throw new Error('The system prompt cannot be empty');
+  const minSteps = Math.round(profile.minSteps);
+  const maxSteps = Math.round(profile.maxSteps);
+  if (!(minSteps >= 1 && maxSteps <= MAX_STEPS && minSteps <= maxSteps)) {
+    throw new Error(`Step counts must be between 1 and ${MAX_STEPS}, minimum first`);
+  }
+  const keys = new Set<string>();
+  const extraFields = profile.extraFields
+    .map(f => ({ ...f, key: f.key.trim(), label: f.label.trim(), description: f.description.trim() }))
+    .filter(f => f.key || f.label || f.description);
+  for (const field of extraFields) {
+    if (!/^[a-zA-Z]\w*$/.test(field.key)) throw new Error(`"${field.key}" is not a valid field key; use letters, digits and underscores`);
+    if (RESERVED_KEYS.has(field.key)) throw new Error(`"${field.key}" is a built-in step field`);
+    if (keys.has(field.key)) throw new Error(`"${field.key}" is used twice`);
+    if (!field.description) throw new Error(`Describe what belongs in "${field.key}"`);
+    keys.add(field.key);
+  }
+  const limit = verificationFailureLimit(getDomain(profile.mode).baseMode);
+  const recoverAfterFailures = profile.recoverAfterFailures === null ? null : Math.round(profile.recoverAfterFailures);
+  if (recoverAfterFailures !== null && !(recoverAfterFailures >= 1 && recoverAfterFailures < limit)) {
+    throw new Error(`Re-planning must start after 1 to ${limit - 1} failed checks; this mode escalates at ${limit}`);
+  }
+  return {
+    ...profile,
+    systemPrompt,
+    minSteps,
+    maxSteps,
+    requiredFields: STEP_DETAIL_FIELDS.filter((f: StepDetailField) => profile.requiredFields.includes(f)),
+    extraFields: extraFields.map(f => ({ ...f, label: f.label || f.key })),
+    verificationStrictness: VERIFICATION_STRICTNESS.includes(profile.verificationStrictness) ? profile.verificationStrictness : 'STANDARD',
+    recoverAfterFailures
+  };
+};
+
+// Every save, including a reset to the defaults, is a new version so audit trails stay unambiguous
+export const saveProfile = (profile: ModeProfile): ModeProfile => {
+  const saved = { ...validateProfile(profile), version: getProfile(profile.mode).version + 1, updatedAt: Date.now() };
+  const profiles = getSavedProfiles();
+  const history = getSavedHistory();
+  // Profiles saved before history was kept start it with their last saved version
+  const earlier = history[profile.mode] || (profiles[profile.mode] ? [profiles[profile.mode]] : []);
+  history[profile.mode] = [saved, ...earlier].slice(0, MAX_HISTORY);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify({ ...profiles, [profile.mode]: saved }));
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  return saved;
+};
+
+export const resetProfile = (mode: DomainId): ModeProfile => saveProfile(defaultProfileFor(mode));
+
+// Every saved version of a mode's profile, newest first; the built-in default is version 1 and is not listed
+export const getProfileHistory = (mode: DomainId): ModeProfile[] =>
+  (getSavedHistory()[mode] || []).map(p => ({ ...defaultProfileFor(mode), ...p }));
+
+// Restoring saves the old content as a new version, so versions only ever increase
+export const restoreProfileVersion = (mode: DomainId, version: number): ModeProfile => {
+  const previous = getProfileHistory(mode).find(p => p.version === version);
+  if (!previous) throw new Error(`Version ${version} is no longer in the history`);
+  return saveProfile(previous);
+};
@@ -0,0 +1,67 @@
+// Reads the text layer of a PDF for the knowledge base with pdf.js, which maps font encodings
+// (including CID fonts and ToUnicode CMaps) to characters. Scanned pages have no text layer.
+
+// Share of a page's non-space characters that must be ordinary letters, digits or punctuation.
+// Fonts with no usable character mapping decode to symbols and private-use code points instead.
+const MIN_READABLE_RATIO = 0.85;
+const READABLE = /[\p{L}\p{N}\p{P}\p{Sc}\p{Sm}°±×]/u;
+// Pages with only a few labels (diagrams, arrows) are too short to judge
+const MIN_JUDGED_CHARS = 40;
+
+const isReadableText = (text: string): boolean => {
+  const chars = [...text.replace(/\s/g, '')];
+  if (chars.length < MIN_JUDGED_CHARS) return true;
+  return chars.filter(c => READABLE.test(c)).length / chars.length >= MIN_READABLE_RATIO;
+};
+
+// pdf.js is large and only needed when a manual is imported, so it is loaded on first use
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    // Bundled from the installed package so imports work offline and match the library version
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+// One entry per page, in reading order; pages without a text layer are empty strings
+export const extractPdfPages = async (data: ArrayBuffer): Promise<string[]> => {
+  const pdfjs = await loadPdfJs();
+  let doc;
+  try {
+    doc = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  } catch (err) {
+    const name = (err as Error)?.name;
+    if (name === 'PasswordException') throw new Error('Password-protected PDFs cannot be added');
+    if (name === 'InvalidPDFException') throw new Error('Not a PDF file');
+    throw err;
+  }
+  try {
+    const pages: string[] = [];
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i);
+      const content = await page.getTextContent();
+      let text = '';
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        text += item.str + (item.hasEOL ? '\n' : '');
+      }
+      pages.push(
+        text
+          .split('\n')
+          .map(line => line.replace(/\s+/g, ' ').trim())
+          .filter(Boolean)
+          .join('\n')
+      );
+      page.cleanup();
+    }
+    // Garbled pages would be indexed and then quoted back as sources, so the whole document is refused
+    if (pages.some(p => !isReadableText(p))) {
+      throw new Error('The text in this PDF uses fonts that cannot be decoded. Export it to text or Markdown first.');
+    }
+    return pages;
+  } finally {
+    doc.destroy();
+  }
+};
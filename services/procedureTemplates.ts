@@ -0,0 +1,87 @@
+import { DomainId, GuidanceStep, ProcedureTemplate, TemplateMatch } from "../types";
+
+const TEMPLATES_STORAGE_KEY = 'masterEverything.procedureTemplates';
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const getTemplates = (mode?: DomainId): ProcedureTemplate[] => {
+  try {
+    const templates: ProcedureTemplate[] = JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) || '[]');
+    return mode ? templates.filter(t => t.mode === mode) : templates;
+  } catch {
+    return [];
+  }
+};
+
+const saveTemplates = (templates: ProcedureTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Saving over an existing id is a new revision of that template
+export const saveTemplate = (template: ProcedureTemplate): ProcedureTemplate[] => {
+  const existing = getTemplates().find(t => t.id === template.id);
+  const saved = { ...template, version: existing ? Math.max(existing.version, template.version) + 1 : template.version, updatedAt: Date.now() };
+  const templates = [...getTemplates().filter(t => t.id !== template.id), saved];
+  saveTemplates(templates);
+  return templates;
+};
+
+export const deleteTemplate = (id: string): ProcedureTemplate[] => {
+  const templates = getTemplates().filter(t => t.id !== id);
+  saveTemplates(templates);
+  return templates;
+};
+
+export const createBlankTemplate = (mode: DomainId): ProcedureTemplate => ({
+  id: crypto.randomUUID(),
+  name: '',
+  mode,
+  description: '',
+  version: 1,
+  parameters: [],
+  steps: [createBlankStep(1)],
+  updatedAt: Date.now()
+});
+
+export const createBlankStep = (id: number): GuidanceStep => ({
+  id,
+  title: '',
+  instruction: '',
+  audioPrompt: '',
+  arOverlayType: 'scan'
+});
+
+// Names used in the step text, so the editor can flag placeholders without a declared parameter
+export const placeholderNames = (template: ProcedureTemplate): string[] => {
+  const names = new Set<string>();
+  const text = JSON.stringify(template.steps);
+  for (const match of text.matchAll(PLACEHOLDER)) names.add(match[1]);
+  return [...names];
+};
+
+const fill = (text: string, values: Record<string, string>) =>
+  text.replace(PLACEHOLDER, (placeholder, name) => values[name] ?? placeholder);
+
+// Only the parameter values change; the vetted wording, order and checks are kept exactly
+export const fillTemplate = (template: ProcedureTemplate, values: Record<string, string>): GuidanceStep[] =>
+  template.steps.map(step => ({
+    ...step,
+    title: fill(step.title, values),
+    instruction: fill(step.instruction, values),
+    audioPrompt: fill(step.audioPrompt, values),
+    ...(step.duration ? { duration: fill(step.duration, values) } : {}),
+    ...(step.materials ? { materials: step.materials.map(m => ({ ...m, name: fill(m.name, values), ...(m.alternative ? { alternative: fill(m.alternative, values) } : {}) })) } : {}),
+    ...(step.warnings ? { warnings: step.warnings.map(w => fill(w, values)) } : {}),
+    ...(step.checkpoints ? { checkpoints: step.checkpoints.map(c => fill(c, values)) } : {}),
+    ...(step.targetRegion ? { targetRegion: { ...step.targetRegion, label: fill(step.targetRegion.label, values) } } : {})
+  }));
+
+// Missing values fall back to the template's defaults
+export const matchTemplate = (template: ProcedureTemplate, values: Record<string, string>): TemplateMatch => ({
+  id: template.id,
+  name: template.name,
+  version: template.version,
+  parameters: Object.fromEntries(
+    template.parameters.map(p => [p.name, values[p.name]?.trim() || p.defaultValue || `[${p.name}]`])
+  )
+});
@@ -0,0 +1,186 @@
+import { NormalizedBox } from "../types";
+
+// Frames are downscaled to this width before matching; tracking only has to be roughly right
+const TRACKING_WIDTH = 160;
+// Sample grid per axis used to describe a region, regardless of its size
+const TEMPLATE_SAMPLES = 24;
+// How far (in tracking pixels) the region may move between two frames
+const SEARCH_RADIUS = 16;
+// Mean absolute grey-level difference above which a match is treated as lost
+const MAX_MATCH_ERROR = 28;
+const MIN_REGION_PX = 8;
+
+export interface GrayFrame {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+interface Template {
+  // Zero-mean samples so matching tolerates overall brightness changes
+  values: Float32Array;
+  cols: number;
+  rows: number;
+  stepX: number;
+  stepY: number;
+  width: number;
+  height: number;
+}
+
+interface Match {
+  x: number;
+  y: number;
+  error: number;
+}
+
+export const grabGrayFrame = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: HTMLCanvasElement
+): GrayFrame | null => {
+  if (!sourceWidth || !sourceHeight) return null;
+  const width = TRACKING_WIDTH;
+  const height = Math.round((sourceHeight * width) / sourceWidth);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, j = 0; i < data.length; i++, j += 4) {
+    data[i] = (rgba[j] * 77 + rgba[j + 1] * 150 + rgba[j + 2] * 29) >> 8;
+  }
+  return { data, width, height };
+};
+
+// Mean grey-level change between two frames of the same size; used as a cheap motion estimate
+export const frameDifference = (a: GrayFrame, b: GrayFrame): number => {
+  if (a.width !== b.width || a.height !== b.height) return Infinity;
+  let total = 0;
+  for (let i = 0; i < a.data.length; i++) total += Math.abs(a.data[i] - b.data[i]);
+  return total / a.data.length;
+};
+
+const sampleGrid = (frame: GrayFrame, x0: number, y0: number, cols: number, rows: number, stepX: number, stepY: number) => {
+  const values = new Float32Array(cols * rows);
+  let sum = 0;
+  for (let r = 0; r < rows; r++) {
+    const y = Math.floor(y0 + r * stepY);
+    for (let c = 0; c < cols; c++) {
+      const v = frame.data[y * frame.width + Math.floor(x0 + c * stepX)];
+      values[r * cols + c] = v;
+      sum += v;
+    }
+  }
+  const mean = sum / values.length;
+  for (let i = 0; i < values.length; i++) values[i] -= mean;
+  return values;
+};
+
+const sampleTemplate = (frame: GrayFrame, x0: number, y0: number, width: number, height: number): Template => {
+  const stepX = Math.max(1, width / TEMPLATE_SAMPLES);
+  const stepY = Math.max(1, height / TEMPLATE_SAMPLES);
+  const cols = Math.max(1, Math.floor(width / stepX));
+  const rows = Math.max(1, Math.floor(height / stepY));
+  return { values: sampleGrid(frame, x0, y0, cols, rows, stepX, stepY), cols, rows, stepX, stepY, width, height };
+};
+
+const matchError = (frame: GrayFrame, tpl: Template, x0: number, y0: number): number => {
+  const candidate = sampleGrid(frame, x0, y0, tpl.cols, tpl.rows, tpl.stepX, tpl.stepY);
+  let total = 0;
+  for (let i = 0; i < candidate.length; i++) total += Math.abs(candidate[i] - tpl.values[i]);
+  return total / candidate.length;
+};
+
+const search = (
+  frame: GrayFrame,
+  tpl: Template,
+  xMin: number,
+  xMax: number,
+  yMin: number,
+  yMax: number,
+  step: number
+): Match => {
+  const maxX = Math.min(xMax, frame.width - tpl.width);
+  const maxY = Math.min(yMax, frame.height - tpl.height);
+  let best: Match = { x: xMin, y: yMin, error: Infinity };
+  for (let y = Math.max(0, yMin); y <= maxY; y += step) {
+    for (let x = Math.max(0, xMin); x <= maxX; x += step) {
+      const error = matchError(frame, tpl, x, y);
+      if (error < best.error) best = { x, y, error };
+    }
+  }
+  return best;
+};
+
+const toPixels = (box: NormalizedBox, frame: GrayFrame) => ({
+  x: Math.round(box.x * frame.width),
+  y: Math.round(box.y * frame.height),
+  width: Math.max(MIN_REGION_PX, Math.min(frame.width, Math.round(box.width * frame.width))),
+  height: Math.max(MIN_REGION_PX, Math.min(frame.height, Math.round(box.height * frame.height)))
+});
+
+// Keeps a box roughly attached to the same patch of the scene as the camera moves,
+// using template matching in a small window around the last known position.
+export const createRegionTracker = (initial: NormalizedBox) => {
+  let box = initial;
+  let template: Template | null = null;
+
+  const moveTo = (frame: GrayFrame, x: number, y: number) => {
+    box = { ...box, x: x / frame.width, y: y / frame.height };
+  };
+
+  return {
+    // Looks for the region from the reference photo anywhere in the live frame
+    localize(frame: GrayFrame, reference: GrayFrame): NormalizedBox {
+      const ref = toPixels(box, reference);
+      const tpl = sampleTemplate(reference, ref.x, ref.y, ref.width, ref.height);
+      const coarse = search(frame, tpl, 0, frame.width, 0, frame.height, 4);
+      const fine = search(frame, tpl, coarse.x - 3, coarse.x + 3, coarse.y - 3, coarse.y + 3, 1);
+      if (fine.error <= MAX_MATCH_ERROR) moveTo(frame, fine.x, fine.y);
+      template = null;
+      return box;
+    },
+
+    update(frame: GrayFrame): NormalizedBox {
+      const px = toPixels(box, frame);
+      if (!template) {
+        template = sampleTemplate(frame, Math.min(px.x, frame.width - px.width), Math.min(px.y, frame.height - px.height), px.width, px.height);
+        return box;
+      }
+      const coarse = search(frame, template, px.x - SEARCH_RADIUS, px.x + SEARCH_RADIUS, px.y - SEARCH_RADIUS, px.y + SEARCH_RADIUS, 2);
+      const fine = search(frame, template, coarse.x - 1, coarse.x + 1, coarse.y - 1, coarse.y + 1, 1);
+      // When the match is lost the marker holds its last position rather than jumping
+      if (fine.error <= MAX_MATCH_ERROR) {
+        moveTo(frame, fine.x, fine.y);
+        template = sampleTemplate(frame, fine.x, fine.y, template.width, template.height);
+      }
+      return box;
+    }
+  };
+};
+
+// Maps a box in video coordinates onto an element showing the video with object-fit: cover
+export const coverToContainer = (
+  box: NormalizedBox,
+  videoWidth: number,
+  videoHeight: number,
+  containerWidth: number,
+  containerHeight: number
+): NormalizedBox => {
+  if (!videoWidth || !videoHeight || !containerWidth || !containerHeight) return box;
+  const scale = Math.max(containerWidth / videoWidth, containerHeight / videoHeight);
+  const displayWidth = videoWidth * scale;
+  const displayHeight = videoHeight * scale;
+  const offsetX = (containerWidth - displayWidth) / 2;
+  const offsetY = (containerHeight - displayHeight) / 2;
+  return {
+    x: (offsetX + box.x * displayWidth) / containerWidth,
+    y: (offsetY + box.y * displayHeight) / containerHeight,
+    width: (box.width * displayWidth) / containerWidth,
+    height: (box.height * displayHeight) / containerHeight
+  };
+};
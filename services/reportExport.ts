@@ -0,0 +1,265 @@
+import { Session, StepOutcome, GuidanceStep, CodeBlock } from "../types";
+import { describeAuditEvent } from "./auditLog";
+import { sessionCaptureSet, describeCapture } from "./captureSet";
+import { describeSource } from "./knowledgeBase";
+import { getDomain } from "./domains";
+
+export type ReportFormat = 'markdown' | 'json' | 'pdf';
+
+const imageUri = (base64: string) => `data:image/jpeg;base64,${base64}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Fence languages let markdown viewers highlight diffs and shell commands too
+const fenceLanguage = (block: CodeBlock) =>
+  block.kind === 'diff' ? 'diff' : block.kind === 'command' ? 'sh' : block.language || '';
+
+// The fence is longer than any backtick run in the text, so pasted Markdown cannot close it early
+const fenced = (text: string, language = '') => {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [fence + language, text, fence, ''];
+};
+
+const describeCodeBlock = (block: CodeBlock) =>
+  ({ code: 'Code', diff: 'Change', command: 'Run' })[block.kind] + (block.filename ? ` · ${block.filename}` : '');
+
+const findOutcome = (session: Session, step: GuidanceStep) =>
+  session.stepOutcomes.find(o => o.stepId === step.id);
+
+const describeOutcome = (outcome?: StepOutcome): string => {
+  if (!outcome) return 'Not completed';
+  switch (outcome.status) {
+    case 'VERIFIED': return outcome.live ? 'Verified by live camera check' : outcome.output ? 'Verified by command output' : 'Verified by photo';
+    case 'FAILED': return 'Verification failed';
+    case 'OVERRIDDEN': return outcome.image || outcome.output
+      ? 'Manually overridden after failed verification'
+      : 'Manually overridden without verification';
+  }
+};
+
+// One line for the whole procedure, e.g. "4 of 6 steps verified (1 by live check), 2 overridden"
+export const summarizeOutcomes = (steps: GuidanceStep[], outcomes: StepOutcome[]): string => {
+  const statuses = steps.map(step => outcomes.find(o => o.stepId === step.id));
+  const verified = statuses.filter(o => o?.status === 'VERIFIED');
+  const live = verified.filter(o => o!.live).length;
+  const overridden = statuses.filter(o => o?.status === 'OVERRIDDEN').length;
+  return `${verified.length} of ${steps.length} steps verified${live ? ` (${live} by live check)` : ''}${overridden ? `, ${overridden} overridden` : ''}`;
+};
+
+const reportFileName = (session: Session, ext: string) => {
+  const slug = (session.analysis?.category || getDomain(session.mode).name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug}-${new Date(session.createdAt).toISOString().slice(0, 10)}.${ext}`;
+};
+
+export const buildReportJson = (session: Session): string => JSON.stringify({
+  id: session.id,
+  mode: session.mode,
+  domain: getDomain(session.mode).name,
+  status: session.status,
+  createdAt: new Date(session.createdAt).toISOString(),
+  updatedAt: new Date(session.updatedAt).toISOString(),
+  description: session.voiceDescription,
+  images: sessionCaptureSet(session).map(({ id, ...capture }) => capture),
+  pastedText: (session.textCaptures || []).map(({ id, ...capture }) => capture),
+  analysis: session.analysis,
+  steps: (session.analysis?.steps || []).map(step => ({
+    ...step,
+    outcome: findOutcome(session, step) || null,
+    outcomeSummary: describeOutcome(findOutcome(session, step))
+  })),
+  auditLog: (session.auditLog || []).map(e => ({ ...e, at: new Date(e.at).toISOString() }))
+}, null, 2);
+
+export const buildReportMarkdown = (session: Session): string => {
+  const a = session.analysis;
+  const lines: string[] = [
+    `# ${a?.category || 'Procedure Report'}`,
+    '',
+    `- **Domain:** ${getDomain(session.mode).name}`,
+    `- **Status:** ${session.status}`,
+    ...(session.analysis ? [`- **Outcome:** ${summarizeOutcomes(session.analysis.steps, session.stepOutcomes)}`] : []),
+    `- **Started:** ${new Date(session.createdAt).toLocaleString()}`,
+    `- **Last updated:** ${new Date(session.updatedAt).toLocaleString()}`,
+    ''
+  ];
+
+  if (session.voiceDescription) lines.push('## Reported Problem', '', `> ${session.voiceDescription}`, '');
+
+  if (session.textCaptures?.length) {
+    lines.push('## Pasted Text', '');
+    session.textCaptures.forEach((capture, i) => lines.push(`**${i + 1}. ${capture.kind}**`, '', ...fenced(capture.text)));
+  }
+
+  lines.push('## Captured Images', '');
+  sessionCaptureSet(session).forEach((capture, i) => {
+    lines.push(`![${i + 1}. ${describeCapture(capture)}](${imageUri(capture.data)})`, '');
+  });
+
+  if (a) {
+    lines.push(
+      '## Assessment',
+      '',
+      `- **Severity:** ${a.severity}`,
+      `- **Confidence:** ${Math.round(a.confidence * 100)}%`,
+      `- **Safe to proceed:** ${a.isSafeToProceed ? 'Yes' : 'No'}`,
+      ...(a.template ? [`- **Vetted procedure:** ${a.template.name} v${a.template.version}`] : []),
+      '',
+      a.reasoning,
+      ''
+    );
+    if (a.uncertainties?.length) {
+      lines.push('### Uncertainties', '', ...a.uncertainties.map(u => `- ${u}`), '');
+    }
+    if (a.screenText?.length) {
+      lines.push('### Read From Screen', '');
+      a.screenText.forEach(t => lines.push(`**Image ${t.imageNumber}**`, '', ...fenced(t.text, t.language)));
+    }
+    if (a.citations?.length) {
+      lines.push('### Sources', '', ...a.citations.map(c => `- ${describeSource(c)}`), '');
+    }
+
+    lines.push('## Procedure', '');
+    a.steps.forEach((step, i) => {
+      const outcome = findOutcome(session, step);
+      lines.push(`### ${i + 1}. ${step.title}`, '', step.instruction, '');
+      if (step.source) lines.push(`**Source:** ${describeSource(step.source)}`, '');
+      if (step.duration) lines.push(`**Duration:** ${step.duration}`, '');
+      if (step.materials?.length) {
+        lines.push('**Materials**', '', ...step.materials.map(m => `- ${m.name}${m.alternative ? ` (alt: ${m.alternative})` : ''}`), '');
+      }
+      if (step.warnings?.length) lines.push('**Warnings**', '', ...step.warnings.map(w => `- ⚠️ ${w}`), '');
+      if (step.checkpoints?.length) lines.push('**Checkpoints**', '', ...step.checkpoints.map(c => `- [ ] ${c}`), '');
+      step.codeBlocks?.forEach(b => lines.push(`**${describeCodeBlock(b)}**`, '', ...fenced(b.content, fenceLanguage(b))));
+      step.details?.forEach(d => {
+        if (Array.isArray(d.value)) lines.push(`**${d.label}**`, '', ...d.value.map(v => `- ${v}`), '');
+        else if (d.type === 'code') lines.push(`**${d.label}**`, '', ...fenced(d.value));
+        else lines.push(`**${d.label}:** ${d.value}`, '');
+      });
+      lines.push(`**Outcome:** ${describeOutcome(outcome)}`, '');
+      if (outcome?.feedback) lines.push(`> ${outcome.feedback}`, '');
+      if (outcome?.output) lines.push(...fenced(outcome.output));
+      if (outcome?.image) lines.push(`![Step ${i + 1} verification](${imageUri(outcome.image)})`, '');
+    });
+  }
+
+  if (session.auditLog?.length) {
+    lines.push('## Audit Trail', '', '| Time | Event | Detail |', '| --- | --- | --- |');
+    session.auditLog.forEach(e => {
+      lines.push(`| ${new Date(e.at).toLocaleString()} | ${describeAuditEvent(e)} | ${(e.detail || '').replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+export const buildReportHtml = (session: Session): string => {
+  const a = session.analysis;
+  const list = (items: string[]) => `<ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`;
+
+  const steps = (a?.steps || []).map((step, i) => {
+    const outcome = findOutcome(session, step);
+    return `
+      <section class="step">
+        <h3>${i + 1}. ${escapeHtml(step.title)}</h3>
+        <p>${escapeHtml(step.instruction)}</p>
+        ${step.source ? `<p><strong>Source:</strong> ${escapeHtml(describeSource(step.source))}</p>` : ''}
+        ${step.duration ? `<p><strong>Duration:</strong> ${escapeHtml(step.duration)}</p>` : ''}
+        ${step.materials?.length ? `<h4>Materials</h4>${list(step.materials.map(m => m.alternative ? `${m.name} (alt: ${m.alternative})` : m.name))}` : ''}
+        ${step.warnings?.length ? `<h4>Warnings</h4>${list(step.warnings)}` : ''}
+        ${step.checkpoints?.length ? `<h4>Checkpoints</h4>${list(step.checkpoints)}` : ''}
+        ${(step.codeBlocks || []).map(b => `<h4>${escapeHtml(describeCodeBlock(b))}</h4><pre>${escapeHtml(b.content)}</pre>`).join('')}
+        ${(step.details || []).map(d => `<h4>${escapeHtml(d.label)}</h4>${Array.isArray(d.value) ? list(d.value) : d.type === 'code' ? `<pre>${escapeHtml(d.value)}</pre>` : `<p>${escapeHtml(d.value)}</p>`}`).join('')}
+        <p class="outcome ${outcome?.status?.toLowerCase() || 'pending'}"><strong>Outcome:</strong> ${describeOutcome(outcome)}</p>
+        ${outcome?.feedback ? `<blockquote>${escapeHtml(outcome.feedback)}</blockquote>` : ''}
+        ${outcome?.output ? `<pre>${escapeHtml(outcome.output)}</pre>` : ''}
+        ${outcome?.image ? `<img src="${imageUri(outcome.image)}" alt="Step ${i + 1} verification" />` : ''}
+      </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(a?.category || 'Procedure Report')}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', sans-serif; color: #0f172a; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { margin-bottom: 4px; }
+  .meta { color: #64748b; font-size: 13px; }
+  .images { display: flex; flex-wrap: wrap; gap: 16px; }
+  .images figure { flex: 1 1 200px; margin: 0; }
+  img { max-width: 100%; border-radius: 12px; }
+  .step { border-top: 1px solid #e2e8f0; padding-top: 12px; page-break-inside: avoid; }
+  .outcome.verified { color: #059669; }
+  .outcome.overridden, .outcome.failed { color: #e11d48; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  blockquote { margin: 8px 0; padding-left: 12px; border-left: 3px solid #cbd5e1; color: #475569; }
+  pre { background: #f1f5f9; padding: 12px; border-radius: 8px; font-size: 12px; overflow-x: auto; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(a?.category || 'Procedure Report')}</h1>
+  <p class="meta">${escapeHtml(getDomain(session.mode).name)} · ${session.status} · ${new Date(session.createdAt).toLocaleString()}</p>
+  ${session.voiceDescription ? `<h2>Reported Problem</h2><blockquote>${escapeHtml(session.voiceDescription)}</blockquote>` : ''}
+  ${session.textCaptures?.length ? `<h2>Pasted Text</h2>${session.textCaptures.map((c, i) => `<h4>${i + 1}. ${escapeHtml(c.kind)}</h4><pre>${escapeHtml(c.text)}</pre>`).join('')}` : ''}
+  <h2>Captured Images</h2>
+  <div class="images">
+    ${sessionCaptureSet(session).map((capture, i) => `<figure><img src="${imageUri(capture.data)}" alt="${escapeHtml(capture.role)}" /><figcaption>${i + 1}. ${escapeHtml(describeCapture(capture))}</figcaption></figure>`).join('')}
+  </div>
+  ${a ? `
+  <h2>Assessment</h2>
+  <p><strong>Severity:</strong> ${a.severity} · <strong>Confidence:</strong> ${Math.round(a.confidence * 100)}% · <strong>Safe to proceed:</strong> ${a.isSafeToProceed ? 'Yes' : 'No'}</p>
+  ${a.template ? `<p><strong>Vetted procedure:</strong> ${escapeHtml(a.template.name)} v${a.template.version}</p>` : ''}
+  <p>${escapeHtml(a.reasoning)}</p>
+  ${a.uncertainties?.length ? `<h4>Uncertainties</h4>${list(a.uncertainties)}` : ''}
+  ${a.screenText?.length ? `<h4>Read From Screen</h4>${a.screenText.map(t => `<p><strong>Image ${t.imageNumber}</strong></p><pre>${escapeHtml(t.text)}</pre>`).join('')}` : ''}
+  ${a.citations?.length ? `<h4>Sources</h4>${list(a.citations.map(describeSource))}` : ''}
+  <h2>Procedure</h2>
+  ${steps}` : ''}
+  ${session.auditLog?.length ? `
+  <h2>Audit Trail</h2>
+  <table>
+    <tr><th>Time</th><th>Event</th><th>Detail</th></tr>
+    ${session.auditLog.map(e => `<tr><td>${new Date(e.at).toLocaleString()}</td><td>${escapeHtml(describeAuditEvent(e))}</td><td>${escapeHtml(e.detail || '')}</td></tr>`).join('')}
+  </table>` : ''}
+</body>
+</html>`;
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// PDF goes through the browser print dialog so no PDF library is needed
+const printHtml = (html: string, fallbackFileName: string) => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    downloadFile(html, fallbackFileName, 'text/html');
+    return;
+  }
+  win.document.write(html);
+  win.document.close();
+  win.onload = () => win.print();
+};
+
+export const exportReport = (session: Session, format: ReportFormat) => {
+  switch (format) {
+    case 'markdown':
+      downloadFile(buildReportMarkdown(session), reportFileName(session, 'md'), 'text/markdown');
+      break;
+    case 'json':
+      downloadFile(buildReportJson(session), reportFileName(session, 'json'), 'application/json');
+      break;
+    case 'pdf':
+      printHtml(buildReportHtml(session), reportFileName(session, 'html'));
+      break;
+  }
+};
@@ -0,0 +1,284 @@
+import {
+  AnalysisResult,
+  GuidanceStep,
+  Material,
+  TargetRegion,
+  VerificationResult,
+  StepRevision,
+  FollowUpReply,
+  RecoveryPlan,
+  LiveObservation,
+  EvidenceRequest,
+  AROverlayType,
+  AR_OVERLAY_TYPES,
+  ProcedureTemplate,
+  KnowledgePassage,
+  SourceCitation,
+  ProfileField,
+  StepDetail,
+  CodeBlock,
+  CODE_BLOCK_KINDS,
+  ScreenText
+} from "../types";
+import { AIError } from "./aiErrors";
+import { fillTemplate, matchTemplate } from "./procedureTemplates";
+
+// Model output is untrusted: fields that can be repaired safely are, anything the
+// procedure cannot run without is rejected as a PARSE error.
+
+const DEFAULT_OVERLAY: AROverlayType = 'scan';
+const SEVERITIES: AnalysisResult['severity'][] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const reject = (reason: string): never => {
+  throw new AIError('PARSE', `Invalid AI response: ${reason}`);
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const textList = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(text).filter(Boolean);
+  return items.length ? items : undefined;
+};
+
+// Code keeps its indentation; only the blank lines around it are dropped
+const codeText = (value: unknown): string => (typeof value === 'string' ? value.replace(/^\s*\n/, '').trimEnd() : '');
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const parseJson = (raw: string | undefined): unknown => {
+  try {
+    return JSON.parse(raw || '');
+  } catch (e) {
+    return reject('response is not valid JSON');
+  }
+};
+
+const validateMaterials = (value: unknown): Material[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const materials = value
+    .filter(isObject)
+    .map(m => ({ name: text(m.name), ...(text(m.alternative) ? { alternative: text(m.alternative) } : {}) }))
+    .filter(m => m.name);
+  return materials.length ? materials : undefined;
+};
+
+const validateCodeBlocks = (value: unknown): CodeBlock[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const blocks = value
+    .filter(isObject)
+    .map(b => {
+      const kind = text(b.kind).toLowerCase();
+      return {
+        kind: ((CODE_BLOCK_KINDS as readonly string[]).includes(kind) ? kind : 'code') as CodeBlock['kind'],
+        content: codeText(b.content),
+        ...(text(b.language) ? { language: text(b.language).toLowerCase() } : {}),
+        ...(text(b.filename) ? { filename: text(b.filename) } : {})
+      };
+    })
+    .filter(b => b.content);
+  return blocks.length ? blocks : undefined;
+};
+
+// Transcripts of a photo the request did not include are dropped
+const validateScreenText = (value: unknown, imageCount: number): ScreenText[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const entries = value
+    .filter(e => isObject(e) && Number.isInteger(e.imageNumber) && e.imageNumber >= 1 && e.imageNumber <= imageCount)
+    .map(e => ({
+      imageNumber: e.imageNumber,
+      text: codeText(e.text),
+      ...(text(e.language) ? { language: text(e.language).toLowerCase() } : {})
+    }))
+    .filter(e => e.text);
+  return entries.length ? entries : undefined;
+};
+
+// A region that falls outside the image is dropped rather than drawn in the wrong place
+const validateTargetRegion = (value: unknown): TargetRegion | undefined => {
+  if (!isObject(value) || !isObject(value.box)) return undefined;
+  const { x, y, width, height } = value.box;
+  if (![x, y, width, height].every(n => typeof n === 'number' && Number.isFinite(n))) return undefined;
+  const box = { x: clamp01(x), y: clamp01(y), width: clamp01(width), height: clamp01(height) };
+  box.width = Math.min(box.width, 1 - box.x);
+  box.height = Math.min(box.height, 1 - box.y);
+  if (box.width <= 0 || box.height <= 0) return undefined;
+  const region: TargetRegion = { label: text(value.label) || 'Target', box };
+  if (Number.isInteger(value.imageNumber) && value.imageNumber >= 1) region.imageNumber = value.imageNumber;
+  return region;
+};
+
+export const validateStep = (value: unknown, index: number): GuidanceStep => {
+  if (!isObject(value)) return reject(`step ${index + 1} is not an object`);
+  const instruction = text(value.instruction);
+  if (!instruction) return reject(`step ${index + 1} has no instruction`);
+  const overlay = text(value.arOverlayType).toLowerCase();
+  const step: GuidanceStep = {
+    id: typeof value.id === 'number' && Number.isFinite(value.id) ? value.id : index + 1,
+    title: text(value.title) || `Step ${index + 1}`,
+    instruction,
+    audioPrompt: text(value.audioPrompt) || instruction,
+    arOverlayType: (AR_OVERLAY_TYPES as readonly string[]).includes(overlay) ? overlay as AROverlayType : DEFAULT_OVERLAY
+  };
+  if (text(value.duration)) step.duration = text(value.duration);
+  const materials = validateMaterials(value.materials);
+  if (materials) step.materials = materials;
+  const warnings = textList(value.warnings);
+  if (warnings) step.warnings = warnings;
+  const checkpoints = textList(value.checkpoints);
+  if (checkpoints) step.checkpoints = checkpoints;
+  const targetRegion = validateTargetRegion(value.targetRegion);
+  if (targetRegion) step.targetRegion = targetRegion;
+  const codeBlocks = validateCodeBlocks(value.codeBlocks);
+  if (codeBlocks) step.codeBlocks = codeBlocks;
+  return step;
+};
+
+// Source ids are the [S1], [S2]... labels of the reference passages in the prompt
+const citation = (id: unknown, references: KnowledgePassage[]): SourceCitation | undefined => {
+  const match = text(id).match(/^\[?S(\d+)\]?$/i);
+  const passage = match ? references[Number(match[1]) - 1] : undefined;
+  if (!passage) return undefined;
+  return {
+    documentId: passage.documentId,
+    documentName: passage.documentName,
+    ...(passage.page ? { page: passage.page } : {}),
+    ...(passage.heading ? { heading: passage.heading } : {}),
+    excerpt: passage.text
+  };
+};
+
+// Ids the model made up are dropped, so a citation always points at a real passage
+export const validateCitations = (value: unknown, references: KnowledgePassage[] = []): SourceCitation[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const ids = [...new Set(value.map(text))];
+  const citations = ids.map(id => citation(id, references)).filter((c): c is SourceCitation => !!c);
+  return citations.length ? citations : undefined;
+};
+
+// Extra profile fields are optional per step; empty ones are left out
+const validateDetails = (value: Record<string, any>, fields: ProfileField[]): StepDetail[] | undefined => {
+  const details = fields.flatMap((field): StepDetail[] => {
+    const detail = field.type === 'list' ? textList(value[field.key]) : text(value[field.key]);
+    return detail && detail.length ? [{ key: field.key, label: field.label, type: field.type, value: detail }] : [];
+  });
+  return details.length ? details : undefined;
+};
+
+// Adds what depends on the request rather than the step alone: its cited passage and profile fields
+const annotateStep = (step: GuidanceStep, raw: unknown, references: KnowledgePassage[], fields: ProfileField[]): GuidanceStep => {
+  if (!isObject(raw)) return step;
+  const source = citation(raw.sourceId, references);
+  const details = validateDetails(raw, fields);
+  return { ...step, ...(source ? { source } : {}), ...(details ? { details } : {}) };
+};
+
+export const validateSteps = (value: unknown, references: KnowledgePassage[] = [], fields: ProfileField[] = []): GuidanceStep[] => {
+  if (!Array.isArray(value) || value.length === 0) return reject('no steps were returned');
+  const steps = value.map((raw, i) => annotateStep(validateStep(raw, i), raw, references, fields));
+  // Duplicate ids would merge outcomes and audit entries of different steps
+  const ids = new Set(steps.map(s => s.id));
+  return ids.size === steps.length ? steps : steps.map((s, i) => ({ ...s, id: i + 1 }));
+};
+
+const templateValues = (value: unknown): Record<string, string> => {
+  if (!Array.isArray(value)) return {};
+  return Object.fromEntries(value.filter(isObject).map(p => [text(p.name), text(p.value)]).filter(([name]) => name));
+};
+
+// A template id the model made up is ignored and its own steps are used instead
+export const validateAnalysis = (
+  value: unknown,
+  templates: ProcedureTemplate[] = [],
+  references: KnowledgePassage[] = [],
+  fields: ProfileField[] = [],
+  imageCount = Infinity
+): AnalysisResult => {
+  if (!isObject(value)) return reject('analysis is not an object');
+  const template = templates.find(t => t.id === text(value.templateId));
+  const match = template ? matchTemplate(template, templateValues(value.templateParameters)) : null;
+  const severity = text(value.severity).toUpperCase() as AnalysisResult['severity'];
+  // Severity drives escalation, so it is never guessed
+  if (!SEVERITIES.includes(severity)) return reject(`unknown severity "${value.severity}"`);
+  const citations = validateCitations(value.sourceIds, references);
+  const screenText = validateScreenText(value.screenText, imageCount);
+  let confidence = typeof value.confidence === 'number' && Number.isFinite(value.confidence) ? value.confidence : 0;
+  // Some responses give a percentage instead of a fraction
+  if (confidence > 1 && confidence <= 100) confidence /= 100;
+  return {
+    category: text(value.category) || 'Unclassified',
+    confidence: clamp01(confidence),
+    reasoning: text(value.reasoning),
+    severity,
+    ...(textList(value.uncertainties) ? { uncertainties: textList(value.uncertainties) } : {}),
+    // Anything but an explicit true is treated as unsafe
+    isSafeToProceed: value.isSafeToProceed === true,
+    steps: match ? fillTemplate(template!, match.parameters) : validateSteps(value.steps, references, fields),
+    ...(match ? { template: match } : {}),
+    ...(citations ? { citations } : {}),
+    ...(screenText ? { screenText } : {})
+  };
+};
+
+// Verification fails closed: a response that does not clearly say success is never a pass
+export const validateVerification = (value: unknown, references: KnowledgePassage[] = []): VerificationResult => {
+  if (!isObject(value) || typeof value.success !== 'boolean') return reject('verification has no success flag');
+  const citations = validateCitations(value.sourceIds, references);
+  return {
+    success: value.success,
+    feedback: text(value.feedback) || (value.success ? 'Step looks complete.' : 'Step could not be confirmed.'),
+    ...(citations ? { citations } : {})
+  };
+};
+
+const validateRevisions = (value: unknown, references: KnowledgePassage[] = [], fields: ProfileField[] = []): StepRevision[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const revisions = value
+    .filter(r => isObject(r) && (r.action === 'REPLACE_CURRENT' || r.action === 'INSERT_AFTER_CURRENT'))
+    .map((r, i) => ({ action: r.action, step: annotateStep(validateStep(r.step, i), r.step, references, fields) }));
+  return revisions.length ? revisions : undefined;
+};
+
+// A reply without text is useless to the user even when it carries revisions
+export const validateFollowUpReply = (value: unknown, references: KnowledgePassage[] = [], fields: ProfileField[] = []): FollowUpReply => {
+  if (!isObject(value)) return reject('follow-up reply is not an object');
+  const reply = text(value.reply);
+  if (!reply) return reject('follow-up reply has no text');
+  const revisions = validateRevisions(value.revisions, references, fields);
+  const citations = validateCitations(value.sourceIds, references);
+  return {
+    text: reply,
+    ...(revisions ? { revisions } : {}),
+    ...(citations ? { citations } : {})
+  };
+};
+
+export const validateRecoveryPlan = (value: unknown, references: KnowledgePassage[] = [], fields: ProfileField[] = []): RecoveryPlan => {
+  if (!isObject(value)) return reject('recovery plan is not an object');
+  if (value.strategy !== 'DIAGNOSTIC_SUBSTEPS' && value.strategy !== 'REVISED_REMAINDER') {
+    return reject(`unknown recovery strategy "${value.strategy}"`);
+  }
+  return { diagnosis: text(value.diagnosis), strategy: value.strategy, steps: validateSteps(value.steps, references, fields) };
+};
+
+export const validateLiveObservation = (value: unknown): LiveObservation => {
+  if (!isObject(value)) return reject('observation is not an object');
+  return {
+    feedback: text(value.feedback),
+    metCheckpoints: textList(value.metCheckpoints) || [],
+    complete: value.complete === true
+  };
+};
+
+// At most three requests so the user is never sent on a long photo hunt
+export const validateEvidenceRequests = (value: unknown): EvidenceRequest[] => {
+  if (!isObject(value) || !Array.isArray(value.requests)) return reject('evidence requests are missing');
+  return value.requests
+    .filter(isObject)
+    .map(r => ({ description: text(r.description), reason: text(r.reason) }))
+    .filter(r => r.description)
+    .slice(0, 3);
+};
@@ -0,0 +1,119 @@
+import { AppMode, AnalysisResult, VerificationResult, SafetyDecision, EscalationContent } from "../types";
+
+interface ModePolicy {
+  // Severity at or above which the procedure is handed off instead of guided
+  escalateAtSeverity: AnalysisResult['severity'] | null;
+  // Failed verifications on a single step before the user is sent to escalation
+  maxVerificationFailures: number;
+  // Analysis confidence below which the model is asked what extra photos would help
+  minConfidence: number;
+}
+
+const SEVERITY_RANK: Record<AnalysisResult['severity'], number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+const MODE_POLICIES: Record<AppMode, ModePolicy> = {
+  [AppMode.FIRST_AID]: { escalateAtSeverity: 'HIGH', maxVerificationFailures: 2, minConfidence: 0.5 },
+  [AppMode.ROBOTICS]: { escalateAtSeverity: 'HIGH', maxVerificationFailures: 3, minConfidence: 0.7 },
+  [AppMode.MECHANICAL]: { escalateAtSeverity: 'HIGH', maxVerificationFailures: 3, minConfidence: 0.7 },
+  [AppMode.TRADES]: { escalateAtSeverity: 'HIGH', maxVerificationFailures: 3, minConfidence: 0.7 },
+  [AppMode.CODING]: { escalateAtSeverity: null, maxVerificationFailures: 5, minConfidence: 0.6 },
+  [AppMode.GENERAL]: { escalateAtSeverity: 'HIGH', maxVerificationFailures: 3, minConfidence: 0.7 }
+};
+
+export const ESCALATION_CONTENT: Record<AppMode, EscalationContent> = {
+  [AppMode.FIRST_AID]: {
+    title: 'Emergency Support Required',
+    message: 'This injury needs professional medical care. Call emergency services now and stay with the person.',
+    instructions: [
+      'Keep the person still and calm.',
+      'Apply firm pressure to any heavy bleeding.',
+      'Do not give food or drink.'
+    ],
+    callEmergencyServices: true
+  },
+  [AppMode.ROBOTICS]: {
+    title: 'Stop and Isolate Power',
+    message: 'This fault is not safe to repair yourself. Disconnect power and hand it to a qualified technician.',
+    instructions: [
+      'Disconnect the battery or mains supply.',
+      'Keep clear of swollen, hot or smoking cells.',
+      'Call a licensed electrician or the manufacturer\'s support line.'
+    ],
+    primaryAction: { label: 'Power Disconnected' }
+  },
+  [AppMode.MECHANICAL]: {
+    title: 'Do Not Operate',
+    message: 'This condition can cause failure under load. Stop using the machine or vehicle until it is inspected.',
+    instructions: [
+      'Park or shut down in a safe location.',
+      'Do not drive or run the equipment.',
+      'Contact a certified mechanic or roadside assistance.'
+    ],
+    primaryAction: { label: 'Equipment Secured' }
+  },
+  [AppMode.TRADES]: {
+    title: 'Stop and Isolate Power',
+    message: 'This work presents a serious hazard. Make the area safe and call a licensed professional.',
+    instructions: [
+      'Switch off the circuit at the breaker and lock it out.',
+      'Keep others away from the work area.',
+      'Call a licensed electrician.'
+    ],
+    primaryAction: { label: 'Power Disconnected' }
+  },
+  [AppMode.CODING]: {
+    title: 'Escalate to On-Call',
+    message: 'This issue needs a second pair of eyes before further changes are made.',
+    instructions: [
+      'Stop deploying further changes.',
+      'Roll back to the last known good version if production is affected.',
+      'Page the on-call engineer with the error details.'
+    ],
+    primaryAction: { label: 'Changes Halted' }
+  },
+  [AppMode.GENERAL]: {
+    title: 'Professional Help Required',
+    message: 'It is not safe to continue on your own. Stop and contact a qualified professional.',
+    instructions: [
+      'Stop work and make the area safe.',
+      'Disconnect any power or fuel source.',
+      'Contact a qualified professional.'
+    ],
+    primaryAction: { label: 'Area Secured' }
+  }
+};
+
+export const evaluateAnalysis = (mode: AppMode, analysis: AnalysisResult): SafetyDecision => {
+  if (!analysis.isSafeToProceed) {
+    return { escalate: true, reason: 'The assessment flagged this situation as unsafe to handle yourself.' };
+  }
+  const threshold = MODE_POLICIES[mode].escalateAtSeverity;
+  if (threshold && SEVERITY_RANK[analysis.severity] >= SEVERITY_RANK[threshold]) {
+    return { escalate: true, reason: `${analysis.severity} severity ${analysis.category.toLowerCase()} detected.` };
+  }
+  return { escalate: false };
+};
+
+export const verificationFailureLimit = (mode: AppMode): number => MODE_POLICIES[mode].maxVerificationFailures;
+
+export const needsMoreEvidence = (mode: AppMode, analysis: AnalysisResult): boolean =>
+  analysis.confidence < MODE_POLICIES[mode].minConfidence;
+
+// The recovery threshold comes from the mode profile; it only takes effect below the mode's hard limit
+export const evaluateVerification = (
+  mode: AppMode,
+  result: VerificationResult,
+  failureCount: number,
+  canRecover: boolean,
+  recoverAfterFailures: number | null
+): SafetyDecision => {
+  if (result.success) return { escalate: false };
+  const limit = MODE_POLICIES[mode].maxVerificationFailures;
+  if (canRecover && recoverAfterFailures !== null && failureCount >= recoverAfterFailures) {
+    return { escalate: false, recover: true, reason: result.feedback };
+  }
+  if (failureCount >= limit) {
+    return { escalate: true, reason: `Step could not be verified after ${failureCount} attempts. ${result.feedback}` };
+  }
+  return { escalate: false };
+};
@@ -0,0 +1,65 @@
+import { Session } from "../types";
+import { sessionCaptureSet } from "./captureSet";
+
+const DB_NAME = 'masterEverything';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = op(db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+export const saveSession = async (session: Session): Promise<void> => {
+  await runRequest('readwrite', store => store.put(session));
+};
+
+export const getSession = (id: string): Promise<Session | undefined> =>
+  runRequest('readonly', store => store.get(id) as IDBRequest<Session | undefined>);
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+// Most recently touched first
+export const listSessions = async (): Promise<Session[]> => {
+  const sessions = await runRequest('readonly', store => store.getAll() as IDBRequest<Session[]>);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// A session is worth resuming once it holds something that was costly to produce
+export const getResumableSession = async (): Promise<Session | null> => {
+  const sessions = await listSessions();
+  return sessions.find(s => s.status === 'IN_PROGRESS' && (s.analysis || sessionCaptureSet(s).length)) || null;
+};
+
+export const updateSessionStatus = async (id: string, status: Session['status']): Promise<void> => {
+  const session = await getSession(id);
+  if (session) await saveSession({ ...session, status, updatedAt: Date.now() });
+};
@@ -0,0 +1,44 @@
+import { GuidanceStep, StepRevision, RecoveryPlan } from "../types";
+
+// Model-supplied ids are not trusted to be unique once steps are spliced in
+const nextStepId = (steps: GuidanceStep[]) => steps.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+
+export const applyStepRevisions = (
+  steps: GuidanceStep[],
+  currentStepIdx: number,
+  revisions: StepRevision[]
+): GuidanceStep[] => {
+  const next = [...steps];
+  // Inserted steps queue up in the order the model returned them
+  let insertAt = currentStepIdx + 1;
+  revisions.forEach(revision => {
+    const step = { ...revision.step, id: nextStepId(next) };
+    if (revision.action === 'REPLACE_CURRENT') {
+      next[currentStepIdx] = step;
+    } else {
+      next.splice(insertAt, 0, step);
+      insertAt++;
+    }
+  });
+  return next;
+};
+
+export const describeRevisions = (revisions: StepRevision[]): string =>
+  revisions
+    .map(r => `${r.action === 'REPLACE_CURRENT' ? 'Replaced current step with' : 'Inserted'} "${r.step.title}"`)
+    .join('; ');
+
+export const applyRecoveryPlan = (
+  steps: GuidanceStep[],
+  currentStepIdx: number,
+  plan: RecoveryPlan
+): GuidanceStep[] => {
+  let id = nextStepId(steps);
+  const recoverySteps = plan.steps.map(step => ({ ...step, id: id++, isRecoveryStep: true }));
+  // Diagnostic sub-steps lead back into the failing step; a revised remainder drops it and the rest
+  const resumeFrom = plan.strategy === 'DIAGNOSTIC_SUBSTEPS' ? currentStepIdx : steps.length;
+  return [...steps.slice(0, currentStepIdx), ...recoverySteps, ...steps.slice(resumeFrom)];
+};
+
+export const describeRecoveryPlan = (plan: RecoveryPlan): string =>
+  `${plan.strategy === 'DIAGNOSTIC_SUBSTEPS' ? 'Added diagnostic steps' : 'Replaced remaining steps with'} ${plan.steps.map(s => `"${s.title}"`).join(', ')}`;
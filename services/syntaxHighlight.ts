@@ -0,0 +1,79 @@
+export type CodeTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+// Output and prose are shown as-is; highlighting them would colour random words
+const PLAIN_LANGUAGES = new Set(['text', 'txt', 'plaintext', 'log', 'output', 'console']);
+const HASH_COMMENT_LANGUAGES = new Set([
+  'python', 'py', 'bash', 'sh', 'shell', 'zsh', 'powershell', 'ps1', 'yaml', 'yml', 'toml', 'ruby', 'rb',
+  'perl', 'r', 'dockerfile', 'makefile', 'ini', 'conf'
+]);
+const DASH_COMMENT_LANGUAGES = new Set(['sql', 'lua', 'haskell']);
+
+// One set across languages: a keyword lit up in the wrong language is harmless and keeps this small
+const KEYWORDS = new Set([
+  // C family, Java, C#, Go, Rust, Swift, Kotlin
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'goto',
+  'int', 'long', 'short', 'char', 'float', 'double', 'void', 'bool', 'boolean', 'unsigned', 'signed', 'const',
+  'static', 'struct', 'enum', 'union', 'typedef', 'sizeof', 'class', 'interface', 'extends', 'implements',
+  'public', 'private', 'protected', 'abstract', 'final', 'new', 'this', 'super', 'try', 'catch', 'finally',
+  'throw', 'throws', 'package', 'import', 'namespace', 'using', 'virtual', 'override', 'template', 'typename',
+  'func', 'go', 'defer', 'chan', 'map', 'range', 'select', 'fn', 'let', 'mut', 'impl', 'trait', 'pub', 'use',
+  'mod', 'match', 'loop', 'where', 'self', 'crate', 'val', 'var', 'fun', 'when', 'object', 'guard',
+  'null', 'nil', 'true', 'false',
+  // JavaScript and TypeScript
+  'function', 'async', 'await', 'yield', 'export', 'from', 'as', 'type', 'typeof', 'instanceof', 'in', 'of',
+  'undefined', 'delete', 'readonly', 'declare', 'keyof',
+  // Python and Ruby
+  'def', 'lambda', 'pass', 'raise', 'except', 'with', 'elif', 'not', 'and', 'or', 'is', 'None', 'True',
+  'False', 'global', 'nonlocal', 'assert', 'del', 'end', 'begin', 'rescue', 'ensure', 'unless', 'module',
+  'require', 'puts', 'print',
+  // Shell
+  'then', 'fi', 'esac', 'done', 'echo', 'local', 'sudo', 'source',
+  // SQL
+  'SELECT', 'FROM', 'WHERE', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE', 'TABLE',
+  'ALTER', 'DROP', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'ON', 'GROUP', 'BY', 'ORDER', 'LIMIT', 'AND', 'OR',
+  'NOT', 'NULL', 'AS', 'INDEX', 'PRIMARY', 'KEY'
+]);
+
+const STRING = String.raw`"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|` + '`(?:\\\\.|[^`\\\\])*`';
+const NUMBER = String.raw`\b0x[0-9a-fA-F]+\b|\b\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?\b`;
+const IDENTIFIER = String.raw`[A-Za-z_$][\w$]*`;
+
+const commentPattern = (language: string) =>
+  HASH_COMMENT_LANGUAGES.has(language) ? '#.*'
+    : DASH_COMMENT_LANGUAGES.has(language) ? '--.*'
+    : String.raw`\/\/.*|\/\*[\s\S]*?\*\/`;
+
+// Splits code into coloured runs; unknown languages get C-style comments, which most code uses
+export const highlightCode = (code: string, language = ''): CodeToken[] => {
+  const lang = language.toLowerCase();
+  if (PLAIN_LANGUAGES.has(lang)) return [{ type: 'plain', text: code }];
+  const pattern = new RegExp(`(${commentPattern(lang)})|(${STRING})|(${NUMBER})|(${IDENTIFIER})`, 'g');
+  const tokens: CodeToken[] = [];
+  let last = 0;
+  const push = (type: CodeTokenType, text: string) => {
+    const prev = tokens[tokens.length - 1];
+    if (prev && prev.type === type) prev.text += text;
+    else tokens.push({ type, text });
+  };
+  for (const match of code.matchAll(pattern)) {
+    if (match.index! > last) push('plain', code.slice(last, match.index));
+    const [text, comment, string, number] = match;
+    push(comment ? 'comment' : string ? 'string' : number ? 'number' : KEYWORDS.has(text) ? 'keyword' : 'plain', text);
+    last = match.index! + text.length;
+  }
+  if (last < code.length) push('plain', code.slice(last));
+  return tokens;
+};
+
+// Unified diff lines by their first character; file and hunk headers are styled alike
+export const diffLineType = (line: string): 'added' | 'removed' | 'hunk' | 'context' => {
+  if (line.startsWith('@@') || line.startsWith('+++') || line.startsWith('---')) return 'hunk';
+  if (line.startsWith('+')) return 'added';
+  if (line.startsWith('-')) return 'removed';
+  return 'context';
+};
@@ -0,0 +1,73 @@
+import { DomainId, ProcedureTemplate, TemplateParameter } from "../types";
+import { validateSteps } from "./responseValidation";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { downloadFile } from "./reportExport";
+import { findDomain, getDomain, isCustomDomain } from "./domains";
+
+export type TemplateFormat = 'json' | 'yaml';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Files may name the domain by its label ("First Aid", "HVAC") or a built-in key ("FIRST_AID")
+const parseMode = (value: unknown): DomainId | null => findDomain(text(value))?.id || null;
+
+const parseParameters = (value: unknown): TemplateParameter[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isObject)
+    .map(p => ({
+      name: text(p.name).replace(/[^\w-]/g, ''),
+      description: text(p.description),
+      ...(text(p.defaultValue ?? p.default) ? { defaultValue: text(p.defaultValue ?? p.default) } : {})
+    }))
+    .filter(p => p.name);
+};
+
+// Same field rules as model output, so a template can never hold a step the guidance screens cannot show
+export const validateTemplate = (value: unknown): ProcedureTemplate => {
+  if (!isObject(value)) throw new Error("Template must be an object");
+  const name = text(value.name);
+  if (!name) throw new Error("Template has no name");
+  const mode = parseMode(value.mode);
+  if (!mode) throw new Error(`Unknown domain "${value.mode}"`);
+  let steps;
+  try {
+    steps = validateSteps(value.steps);
+  } catch (err) {
+    throw new Error(`Template steps are invalid: ${(err as Error).message.replace(/^Invalid AI response: /, '')}`);
+  }
+  return {
+    id: text(value.id) || crypto.randomUUID(),
+    name,
+    mode,
+    description: text(value.description),
+    version: Number.isInteger(value.version) && value.version > 0 ? value.version : 1,
+    parameters: parseParameters(value.parameters),
+    steps,
+    updatedAt: Date.now()
+  };
+};
+
+export const parseTemplateFile = (content: string): ProcedureTemplate => {
+  const trimmed = content.trim();
+  return validateTemplate(trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed));
+};
+
+export const serializeTemplate = (template: ProcedureTemplate, format: TemplateFormat): string => {
+  const { updatedAt, ...rest } = template;
+  // Custom domain ids are random per device, so the file carries the name the importer matches on
+  const portable = { ...rest, mode: isCustomDomain(template.mode) ? getDomain(template.mode).name : template.mode };
+  return format === 'json' ? JSON.stringify(portable, null, 2) : stringifyYaml(portable);
+};
+
+export const exportTemplate = (template: ProcedureTemplate, format: TemplateFormat) => {
+  const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'procedure';
+  downloadFile(
+    serializeTemplate(template, format),
+    `${slug}-v${template.version}.${format === 'json' ? 'json' : 'yaml'}`,
+    format === 'json' ? 'application/json' : 'application/yaml'
+  );
+};
@@ -0,0 +1,77 @@
+import { VoiceCommand } from "../types";
+
+export type ListeningMode = 'PUSH_TO_TALK' | 'WAKE_WORD';
+
+const LISTENING_MODE_STORAGE_KEY = 'masterEverything.voiceListeningMode';
+
+export const WAKE_WORD = 'hey master';
+
+export const VOICE_COMMAND_LABELS: Record<VoiceCommand, string> = {
+  NEXT: 'Next step',
+  REPEAT: 'Repeat instruction',
+  BACK: 'Previous step',
+  VERIFY: 'Verify step',
+  TOOLS: 'Tools needed',
+  HELP: 'Call for help'
+};
+
+// Asking for help is honoured anywhere in an utterance, so "help, go back" is never read as navigation
+const HELP_PATTERN = /^help\b|\b(call (for )?help|emergency|help me|(get|need) help)\b/;
+
+// Every other command must be the whole utterance; a step is never advanced by a word caught mid-sentence
+const COMMAND_PATTERNS: [VoiceCommand, RegExp][] = [
+  ['TOOLS', /^(what )?(tools?|materials?|equipment|supplies)( do i need| needed)?$/],
+  ['VERIFY', /^(verify( it| this| (the )?step)?|check (it|this|my work)|snap|take (a )?photo)$/],
+  ['REPEAT', /^(repeat( that| (the )?instructions?| (the )?step)?|again|say (that|it) again|what was that)$/],
+  ['BACK', /^(back|go back|previous( step)?|undo)$/],
+  ['NEXT', /^(next( step)?|continue|(i'?m |all )?done|proceed|go on|move on|(i'?m )?finished)$/]
+];
+
+// "I'm not done" or "don't continue" must never trigger the command they contain
+const NEGATION = /\b(not|no|never|don'?t|isn'?t|hasn'?t|haven'?t|can'?t|wait|stop)\b/;
+const FILLERS = /^((ok(ay)?|alright|right|so|and|um+|uh+|please) )+|( (please|now))+$/g;
+
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const text = transcript.toLowerCase().replace(/[^a-z\s']/g, ' ').replace(/\s+/g, ' ').trim();
+  if (HELP_PATTERN.test(text)) return 'HELP';
+  if (NEGATION.test(text)) return null;
+  const command = text.replace(FILLERS, '').trim();
+  const match = COMMAND_PATTERNS.find(([, pattern]) => pattern.test(command));
+  return match ? match[0] : null;
+};
+
+// In wake-word mode only speech following the wake word counts, so background talk is ignored
+export const stripWakeWord = (transcript: string): string | null => {
+  const text = transcript.toLowerCase();
+  const at = text.lastIndexOf(WAKE_WORD);
+  return at === -1 ? null : text.slice(at + WAKE_WORD.length).trim();
+};
+
+export const getListeningMode = (): ListeningMode =>
+  localStorage.getItem(LISTENING_MODE_STORAGE_KEY) === 'WAKE_WORD' ? 'WAKE_WORD' : 'PUSH_TO_TALK';
+
+export const setListeningMode = (mode: ListeningMode) => {
+  localStorage.setItem(LISTENING_MODE_STORAGE_KEY, mode);
+};
+
+// The parts of the Web Speech API recognizer used here; TypeScript's DOM types do not include it
+export interface SpeechRecognizer {
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognizerConstructor = new () => SpeechRecognizer;
+
+// Browser speech recognition is prefixed in Chromium and Safari and missing in Firefox
+export const getSpeechRecognition = (): SpeechRecognizerConstructor | null => {
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognizerConstructor;
+    webkitSpeechRecognition?: SpeechRecognizerConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+};
@@ -8,11 +8,51 @@ export enum AppMode {
   GENERAL = 'Technical Advisor'
 }
 
+// Built-in domains use their AppMode value as id, so sessions and documents tagged with a mode still resolve
+export type DomainId = string;
+
+export const DOMAIN_ICONS = ['bolt', 'gear', 'code', 'hammer', 'heart', 'sparkles', 'bulb', 'cube', 'beaker', 'fire', 'home', 'sun', 'chip'] as const;
+export type DomainIconName = typeof DOMAIN_ICONS[number];
+
+export const DOMAIN_COLORS = ['indigo', 'slate', 'blue', 'amber', 'rose', 'teal', 'emerald', 'violet', 'orange', 'cyan'] as const;
+export type DomainColor = typeof DOMAIN_COLORS[number];
+
+export interface Domain {
+  id: DomainId;
+  name: string;
+  icon: DomainIconName;
+  color: DomainColor;
+  // Who the model acts as; seeds the system prompt of the domain's profile
+  persona: string;
+  // Safety policy, escalation advice and offline content come from this built-in mode
+  baseMode: AppMode;
+  builtIn?: boolean;
+}
+
 export interface Material {
   name: string;
   alternative?: string;
 }
 
+export const AR_OVERLAY_TYPES = ['arrow', 'circle', 'hand', 'press', 'wash', 'scan', 'code', 'bolt', 'gear'] as const;
+
+export type AROverlayType = typeof AR_OVERLAY_TYPES[number];
+
+// Coordinates are fractions (0-1) of the image, measured from the top-left corner
+export interface NormalizedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TargetRegion {
+  label: string;
+  box: NormalizedBox;
+  // 1-based position in the capture set; older regions without it refer to the close-up
+  imageNumber?: number;
+}
+
 export interface GuidanceStep {
   id: number;
   title: string;
@@ -22,7 +62,86 @@ export interface GuidanceStep {
   warnings?: string[];
   checkpoints?: string[];
   audioPrompt: string;
-  arOverlayType: 'arrow' | 'circle' | 'hand' | 'press' | 'wash' | 'scan' | 'code' | 'bolt' | 'gear';
+  arOverlayType: AROverlayType;
+  // Where the step's component sits in the macro (detail) image
+  targetRegion?: TargetRegion;
+  // Steps added by failure recovery are not re-planned a second time
+  isRecoveryStep?: boolean;
+  // Manual passage the step was taken from
+  source?: SourceCitation;
+  // Values for the mode profile's extra fields, such as torque specs or pinouts
+  details?: StepDetail[];
+  codeBlocks?: CodeBlock[];
+}
+
+export const CODE_BLOCK_KINDS = ['code', 'diff', 'command'] as const;
+
+export type CodeBlockKind = typeof CODE_BLOCK_KINDS[number];
+
+// Exact text the user copies: a snippet, a unified diff or one terminal command
+export interface CodeBlock {
+  kind: CodeBlockKind;
+  content: string;
+  // Highlighting hint such as 'typescript' or 'bash'
+  language?: string;
+  filename?: string;
+}
+
+// Code, terminal output or an error message the model read off a photo, verbatim
+export interface ScreenText {
+  // 1-based position in the capture set
+  imageNumber: number;
+  text: string;
+  language?: string;
+}
+
+// Logs, stack traces or terminal output pasted as text instead of photographed
+export interface TextCapture {
+  id: string;
+  kind: string;
+  text: string;
+}
+
+export interface StepDetail {
+  key: string;
+  label: string;
+  type: ProfileFieldType;
+  // A list field holds one entry per item
+  value: string | string[];
+}
+
+export const STEP_DETAIL_FIELDS = ['duration', 'materials', 'warnings', 'checkpoints'] as const;
+
+export type StepDetailField = typeof STEP_DETAIL_FIELDS[number];
+
+export type ProfileFieldType = 'text' | 'list' | 'code';
+
+// A domain-specific step field that is added to the model's step schema
+export interface ProfileField {
+  key: string;
+  label: string;
+  // Tells the model what belongs in the field
+  description: string;
+  type: ProfileFieldType;
+}
+
+export type VerificationStrictness = 'LENIENT' | 'STANDARD' | 'STRICT';
+
+// How the model is prompted and what shape of procedure it must return for one domain
+export interface ModeProfile {
+  mode: DomainId;
+  // Bumped on every saved edit; recorded in the audit trail of each analysis
+  version: number;
+  systemPrompt: string;
+  minSteps: number;
+  maxSteps: number;
+  // Fields every step must include
+  requiredFields: StepDetailField[];
+  extraFields: ProfileField[];
+  verificationStrictness: VerificationStrictness;
+  // Failed verifications on a step before the model is asked to re-plan it; null escalates without re-planning
+  recoverAfterFailures: number | null;
+  updatedAt: number;
 }
 
 export interface AnalysisResult {
@@ -33,6 +152,37 @@ export interface AnalysisResult {
   uncertainties?: string[];
   isSafeToProceed: boolean;
   steps: GuidanceStep[];
+  // Set when the steps come from a vetted template instead of the model
+  template?: TemplateMatch;
+  citations?: SourceCitation[];
+  screenText?: ScreenText[];
+}
+
+export interface TemplateParameter {
+  // Referenced as {{name}} in the template's step text
+  name: string;
+  description: string;
+  defaultValue?: string;
+}
+
+export interface ProcedureTemplate {
+  id: string;
+  name: string;
+  mode: DomainId;
+  // When the procedure applies; the model matches situations against it
+  description: string;
+  // Bumped on every saved edit so reports show which revision was followed
+  version: number;
+  parameters: TemplateParameter[];
+  steps: GuidanceStep[];
+  updatedAt: number;
+}
+
+export interface TemplateMatch {
+  id: string;
+  name: string;
+  version: number;
+  parameters: Record<string, string>;
 }
 
 export enum AppState {
@@ -41,10 +191,263 @@ export enum AppState {
   CAPTURE_COMPLETE = 'CAPTURE_COMPLETE',
   VOICE_DESCRIPTION = 'VOICE_DESCRIPTION',
   ANALYZING = 'ANALYZING',
+  ANALYSIS_FAILED = 'ANALYSIS_FAILED',
+  EVIDENCE_CAPTURE = 'EVIDENCE_CAPTURE',
   ANALYSIS_COMPLETE = 'ANALYSIS_COMPLETE',
   PREPARING_INSTRUCTIONS = 'PREPARING_INSTRUCTIONS',
   GUIDANCE = 'GUIDANCE',
   STEP_VALIDATION = 'STEP_VALIDATION',
+  LIVE_VALIDATION = 'LIVE_VALIDATION',
   ESCALATION = 'ESCALATION',
   COMPLETED = 'COMPLETED'
 }
+
+export interface VerificationResult {
+  success: boolean;
+  feedback: string;
+  citations?: SourceCitation[];
+}
+
+export interface SpeechAudio {
+  // Base64 encoded 16-bit little-endian mono PCM
+  data: string;
+  sampleRate: number;
+}
+
+export interface AIProvider {
+  id: string;
+  // Voice used by synthesizeSpeech; part of the speech cache key
+  speechVoice: string;
+  // References are manual passages retrieved for the situation; answers cite the ones they relied on
+  analyzeSituation(mode: DomainId, images: LabeledImage[], voiceText?: string, templates?: ProcedureTemplate[], references?: KnowledgePassage[], profile?: ModeProfile, textCaptures?: TextCapture[]): Promise<AnalysisResult>;
+  // Asks what additional photos would raise confidence in a weak analysis
+  requestEvidence(mode: DomainId, analysis: AnalysisResult, images: LabeledImage[]): Promise<EvidenceRequest[]>;
+  verifyStep(instruction: string, base64Image: string, references?: KnowledgePassage[], strictness?: VerificationStrictness): Promise<VerificationResult>;
+  // Same judgement from command output the user pasted instead of a photo
+  verifyOutput(instruction: string, output: string, references?: KnowledgePassage[], strictness?: VerificationStrictness): Promise<VerificationResult>;
+  transcribeAudio(base64Audio: string, mimeType: string): Promise<string>;
+  askFollowUp(context: FollowUpContext, history: ChatMessage[], message: ChatMessage): Promise<FollowUpReply>;
+  synthesizeSpeech(text: string): Promise<SpeechAudio | null>;
+  planRecovery(context: FollowUpContext, attempts: FailedAttempt[]): Promise<RecoveryPlan>;
+  // Judges a rolling window of live frames; providers with a realtime API may keep a session open behind this
+  observeStep(step: GuidanceStep, frames: LiveFrame[], elapsedMs: number): Promise<LiveObservation>;
+}
+
+export interface SafetyDecision {
+  escalate: boolean;
+  // Ask the model for a recovery plan before escalating
+  recover?: boolean;
+  reason?: string;
+}
+
+export interface EscalationContent {
+  title: string;
+  message: string;
+  instructions: string[];
+  // Render the locale's emergency call buttons instead of a primary action
+  callEmergencyServices?: boolean;
+  primaryAction?: { label: string };
+}
+
+export interface EmergencyContact {
+  id: string;
+  kind: 'emergency' | 'medical' | 'police' | 'fire' | 'poison' | 'custom';
+  label: string;
+  number: string;
+}
+
+export interface EmergencyRegion {
+  code: string;
+  name: string;
+  numbers: Omit<EmergencyContact, 'id'>[];
+}
+
+export interface StepOutcome {
+  stepId: number;
+  status: 'VERIFIED' | 'FAILED' | 'OVERRIDDEN';
+  // Base64 JPEG of the last verification attempt, if one was taken
+  image?: string;
+  // Command output pasted for the last verification attempt instead of a photo
+  output?: string;
+  // Completed by the live camera check rather than a single photo or pasted output
+  live?: boolean;
+  feedback?: string;
+  completedAt: number;
+}
+
+export type AuditEventType =
+  | 'SESSION_STARTED'
+  | 'SESSION_RESUMED'
+  | 'ANALYSIS_COMPLETED'
+  | 'STEP_STARTED'
+  | 'STEP_FINISHED'
+  | 'VERIFICATION_ATTEMPT'
+  // The verifier could not be reached; the step was neither passed nor failed
+  | 'VERIFICATION_UNAVAILABLE'
+  | 'VERIFICATION_RETRY'
+  | 'MANUAL_OVERRIDE'
+  | 'PLAN_REVISED'
+  | 'RECOVERY_PLANNED'
+  | 'VOICE_COMMAND'
+  | 'EVIDENCE_REQUESTED'
+  | 'ESCALATION'
+  | 'SESSION_COMPLETED';
+
+export interface AuditEvent {
+  at: number;
+  type: AuditEventType;
+  stepId?: number;
+  detail?: string;
+  success?: boolean;
+  // Base64 JPEG submitted for a verification attempt
+  image?: string;
+  // Command output pasted for a verification attempt
+  output?: string;
+}
+
+export type SessionStatus = 'IN_PROGRESS' | 'COMPLETED' | 'ESCALATED' | 'ABANDONED';
+
+export interface Session {
+  id: string;
+  mode: DomainId;
+  // Safety rules the domain had, so a session outlives its custom domain being deleted; missing on older sessions
+  baseMode?: AppMode;
+  status: SessionStatus;
+  state: AppState;
+  createdAt: number;
+  updatedAt: number;
+  captureSet?: CaptureImage[];
+  // Fixed two-photo capture of sessions stored before capture sets; read through sessionCaptureSet
+  wideImage?: string | null;
+  macroImage?: string | null;
+  evidenceImages?: LabeledImage[];
+  textCaptures?: TextCapture[];
+  voiceDescription: string | null;
+  analysis: AnalysisResult | null;
+  currentStepIdx: number;
+  stepOutcomes: StepOutcome[];
+  // Append-only; sessions stored before the audit trail existed have none
+  auditLog?: AuditEvent[];
+  chatHistory?: ChatMessage[];
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  // Base64 JPEG attached to a user message
+  image?: string;
+  citations?: SourceCitation[];
+  at: number;
+}
+
+export interface StepRevision {
+  action: 'REPLACE_CURRENT' | 'INSERT_AFTER_CURRENT';
+  step: GuidanceStep;
+}
+
+export interface FollowUpContext {
+  mode: DomainId;
+  images: LabeledImage[];
+  analysis: AnalysisResult;
+  currentStepIdx: number;
+  references?: KnowledgePassage[];
+  profile?: ModeProfile;
+  textCaptures?: TextCapture[];
+}
+
+export interface FollowUpReply {
+  text: string;
+  revisions?: StepRevision[];
+  citations?: SourceCitation[];
+}
+
+// Each attempt is either a photo or pasted command output
+export interface FailedAttempt {
+  image?: string;
+  output?: string;
+  feedback: string;
+}
+
+export interface RecoveryPlan {
+  diagnosis: string;
+  // DIAGNOSTIC_SUBSTEPS run before the failing step is retried; REVISED_REMAINDER replaces it and everything after
+  strategy: 'DIAGNOSTIC_SUBSTEPS' | 'REVISED_REMAINDER';
+  steps: GuidanceStep[];
+}
+
+export interface LiveFrame {
+  image: string;
+  // Milliseconds since live verification of the step began
+  offsetMs: number;
+}
+
+export interface LiveObservation {
+  feedback: string;
+  metCheckpoints: string[];
+  complete: boolean;
+}
+
+export type VoiceCommand = 'NEXT' | 'REPEAT' | 'BACK' | 'VERIFY' | 'TOOLS' | 'HELP';
+
+export interface LabeledImage {
+  // What the photo shows, passed to the model alongside it
+  role: string;
+  data: string;
+}
+
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+// Drawn by the user to point at what matters; points are fractions (0-1) of the image size
+export interface ImageAnnotation {
+  shape: 'circle' | 'arrow';
+  // Circle: centre to a point on the rim. Arrow: tail to head.
+  from: ImagePoint;
+  to: ImagePoint;
+}
+
+export interface CaptureImage extends LabeledImage {
+  id: string;
+  caption?: string;
+  annotation?: ImageAnnotation;
+}
+
+export interface EvidenceRequest {
+  description: string;
+  reason: string;
+}
+
+export type KnowledgeFormat = 'pdf' | 'markdown' | 'text';
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  mode: DomainId;
+  format: KnowledgeFormat;
+  // PDFs only; Markdown and text have no pages
+  pageCount?: number;
+  passageCount: number;
+  addedAt: number;
+}
+
+// A retrievable chunk of a document, small enough to quote in a prompt
+export interface KnowledgePassage {
+  id: string;
+  documentId: string;
+  documentName: string;
+  mode: DomainId;
+  page?: number;
+  // Nearest Markdown heading above the passage
+  heading?: string;
+  text: string;
+}
+
+export interface SourceCitation {
+  documentId: string;
+  documentName: string;
+  page?: number;
+  heading?: string;
+  excerpt: string;
+}